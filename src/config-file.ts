@@ -0,0 +1,159 @@
+import { existsSync, readFileSync } from 'fs'
+import { homedir } from 'os'
+import { extname, join, resolve } from 'path'
+import { load } from 'js-yaml'
+import { z } from 'zod'
+import {
+    RenderGraphvizRequestSchema,
+    RenderMarkdownRequestSchema,
+    RenderMermaidRequestSchema,
+    RenderPlantumlRequestSchema,
+    RenderPlotlyRequestSchema,
+    SecurityLevelEnum,
+    ThemePresetsFileSchema
+} from './types.js'
+
+export const CONFIG_FILE_NAMES = ['diagram-mcp.config.json', 'diagram-mcp.config.yaml', 'diagram-mcp.config.yml']
+
+export const LogLevelEnum = z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace', 'silent'])
+
+const RenderLimitsFileSchema = z.object({
+    renderTimeoutMs: z.number().int().min(1),
+    maxRenderTimeoutMs: z.number().int().min(1),
+    padding: z.number().int().min(0),
+    maxPadding: z.number().int().min(0),
+    viewportWidth: z.number().int().min(1),
+    viewportHeight: z.number().int().min(1),
+    maxViewportWidth: z.number().int().min(1),
+    maxViewportHeight: z.number().int().min(1),
+    maxCodeLength: z.number().int().min(1),
+    maxOutputBytes: z.number().int().min(1),
+    maxPixelArea: z.number().int().min(1)
+}).partial().strict()
+
+// Defaults for options a call leaves out. The diagram source and the file
+// path are always per call.
+const ToolDefaultsSchema = z.object({
+    render_mermaid: RenderMermaidRequestSchema.omit({ mermaidCode: true, filePath: true }).partial().strict(),
+    render_plotly: RenderPlotlyRequestSchema.omit({ figure: true, plotlyCode: true, filePath: true }).partial().strict(),
+    render_graphviz: RenderGraphvizRequestSchema.omit({ dotCode: true, filePath: true }).partial().strict(),
+    render_plantuml: RenderPlantumlRequestSchema.omit({ plantumlCode: true, filePath: true }).partial().strict(),
+    render_markdown: RenderMarkdownRequestSchema.omit({ markdown: true }).partial().strict()
+}).partial().strict()
+
+const ApiKeySchema = z.object({
+    name: z.string().min(1),
+    token: z.string().min(1)
+}).strict()
+
+export const ConfigFileSchema = z.object({
+    staticDir: z.string().min(1),
+    allowedDirs: z.array(z.string().min(1)),
+    serverPort: z.number().int().min(1).max(65535),
+    transportType: z.enum(['http', 'stdio']),
+    logLevel: LogLevelEnum,
+    logDir: z.string().min(1),
+    mermaidVersion: z.string().min(1),
+    plotlyVersion: z.string().min(1),
+    mermaidBundlePath: z.string().min(1),
+    plotlyBundlePath: z.string().min(1),
+    maxConcurrentRenders: z.number().int().min(1),
+    warmPages: z.number().int().min(0),
+    chromeNoSandbox: z.boolean(),
+    renderTtlSeconds: z.number().int().min(0),
+    maxStoreBytes: z.number().int().min(0),
+    cleanupIntervalSeconds: z.number().int().min(0),
+    purgeOnStartup: z.boolean(),
+    plotlyCodeMode: z.enum(['sandboxed', 'trusted', 'disabled']),
+    plotlyCodeTimeoutMs: z.number().int().min(1),
+    mermaidSecurityLevel: SecurityLevelEnum,
+    themePresetsFile: z.string().min(1),
+    themePresets: ThemePresetsFileSchema,
+    plantumlJar: z.string().min(1),
+    plantumlServerUrl: z.string().url(),
+    javaPath: z.string().min(1),
+    plantumlTimeoutMs: z.number().int().min(1),
+    host: z.string().min(1),
+    publicUrl: z.string().url(),
+    apiKeys: z.array(ApiKeySchema),
+    staticUrlSecret: z.string().min(1),
+    staticUrlTtlSeconds: z.number().int().min(1),
+    rateLimitPerMinute: z.number().int().min(0),
+    renderQuotaPerDay: z.number().int().min(0),
+    corsOrigins: z.array(z.string().min(1)),
+    allowedHosts: z.array(z.string().min(1)),
+    maxRequestBytes: z.number().int().min(1),
+    sessionIdleTimeoutSeconds: z.number().int().min(1),
+    maxSessions: z.number().int().min(1),
+    sessionEventHistory: z.number().int().min(1),
+    sessionEventHistoryBytes: z.number().int().min(1),
+    limits: RenderLimitsFileSchema,
+    defaults: ToolDefaultsSchema
+}).partial().strict()
+
+export type ConfigFile = z.infer<typeof ConfigFileSchema>
+export type ToolDefaults = z.infer<typeof ToolDefaultsSchema>
+export type ToolName = keyof ToolDefaults
+export type LogLevel = z.infer<typeof LogLevelEnum>
+
+function getConfigArgument(argv: string[]): string | undefined {
+    for (let index = 0; index < argv.length; index++) {
+        if (argv[index] === '--config') {
+            return argv[index + 1]
+        }
+        if (argv[index].startsWith('--config=')) {
+            return argv[index].slice('--config='.length)
+        }
+    }
+    return undefined
+}
+
+/**
+ * Finds the config file: `--config <path>`, then CONFIG_FILE, then the first
+ * of CONFIG_FILE_NAMES in the working directory and in the home directory.
+ * An explicit path must exist, the searched locations may have none.
+ */
+export function findConfigFile(argv: string[] = process.argv.slice(2)): string | undefined {
+    const explicitPath = getConfigArgument(argv) || process.env.CONFIG_FILE
+    if (explicitPath) {
+        const configPath = resolve(explicitPath)
+        if (!existsSync(configPath)) {
+            throw new Error(`Config file ${configPath} does not exist`)
+        }
+        return configPath
+    }
+
+    for (const directory of [process.cwd(), homedir()]) {
+        for (const name of CONFIG_FILE_NAMES) {
+            const configPath = join(directory, name)
+            if (existsSync(configPath)) {
+                return configPath
+            }
+        }
+    }
+
+    return undefined
+}
+
+/**
+ * Reads and validates a JSON or YAML config file. The error lists every
+ * invalid setting with its path, not only the first.
+ */
+export function readConfigFile(configPath: string): ConfigFile {
+    let content: unknown
+    try {
+        const text = readFileSync(configPath, 'utf-8')
+        content = extname(configPath).toLowerCase() === '.json' ? JSON.parse(text) : load(text)
+    } catch (error) {
+        throw new Error(`Config file ${configPath} is unreadable: ${(error as Error).message}`)
+    }
+
+    // An empty YAML file holds no settings
+    const parsed = ConfigFileSchema.safeParse(content ?? {})
+    if (!parsed.success) {
+        const issues = parsed.error.issues.map(issue => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        throw new Error(`Config file ${configPath} is invalid:\n${issues.join('\n')}`)
+    }
+
+    return parsed.data
+}
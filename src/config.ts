@@ -1,7 +1,9 @@
 import { config as dotenvConfig } from 'dotenv'
 import { join } from 'path'
 import pino from 'pino'
-import { existsSync, mkdirSync } from 'fs'
+import { existsSync, mkdirSync, watchFile } from 'fs'
+import { ConfigFile, findConfigFile, LogLevel, LogLevelEnum, readConfigFile, ToolDefaults } from './config-file.js'
+import { ThemePreset } from './types.js'
 
 // Load environment variables from .env file
 dotenvConfig()
@@ -11,14 +13,76 @@ export interface Config {
     allowedDirs: string[]
     serverPort: number
     transportType: 'http' | 'stdio'
+    mermaidVersion: string
+    plotlyVersion: string
+    mermaidBundlePath?: string
+    plotlyBundlePath?: string
+    maxConcurrentRenders: number
+    warmPages: number
+    chromeNoSandbox: boolean
+    renderTtlSeconds: number
+    maxStoreBytes: number
+    cleanupIntervalSeconds: number
+    purgeOnStartup: boolean
+    plotlyCodeMode: 'sandboxed' | 'trusted' | 'disabled'
+    plotlyCodeTimeoutMs: number
+    mermaidSecurityLevel: MermaidSecurityLevel
+    themePresetsFile?: string
+    plantumlJar?: string
+    plantumlServerUrl?: string
+    javaPath: string
+    plantumlTimeoutMs: number
+    host: string
+    publicUrl: string
+    apiKeys: ApiKey[]
+    staticUrlSecret?: string
+    staticUrlTtlSeconds: number
+    rateLimitPerMinute: number
+    renderQuotaPerDay: number
+    corsOrigins: string[]
+    allowedHosts: string[]
+    maxRequestBytes: number
+    sessionIdleTimeoutSeconds: number
+    maxSessions: number
+    sessionEventHistory: number
+    sessionEventHistoryBytes: number
+    limits: RenderLimits
+    logLevel: LogLevel
+    logDir: string
+    // Presets defined in the config file, THEME_PRESETS_FILE adds to them
+    themePresets: Record<string, ThemePreset>
+    toolDefaults: ToolDefaults
+    // The config file in use, if any
+    configFile?: string
 }
 
-const logDir = join(process.cwd(), 'logs')
-if (!existsSync(logDir)) {
-    mkdirSync(logDir, { recursive: true })
+/**
+ * Bounds for a single render. Requests may override the timeout, padding and
+ * viewport up to the `max` values.
+ */
+export interface RenderLimits {
+    renderTimeoutMs: number
+    maxRenderTimeoutMs: number
+    padding: number
+    maxPadding: number
+    viewportWidth: number
+    viewportHeight: number
+    maxViewportWidth: number
+    maxViewportHeight: number
+    maxCodeLength: number
+    maxOutputBytes: number
+    maxPixelArea: number
 }
 
-const createLoggerTransports = (transportType: 'http' | 'stdio') => {
+export interface ApiKey {
+    // Identifies the client in logs, rate limits and quotas
+    name: string
+    token: string
+}
+
+export type MermaidSecurityLevel = 'strict' | 'antiscript' | 'loose'
+
+const createLoggerTransports = (transportType: 'http' | 'stdio', logDir: string) => {
     const transports = [
         {
             target: 'pino/file',
@@ -42,48 +106,338 @@ const createLoggerTransports = (transportType: 'http' | 'stdio') => {
     return transports
 }
 
-function parseAllowedDirs(): string[] {
-    const allowedDirs = process.env.ALLOWED_DIRS
-    if (!allowedDirs) return []
+function parseListEnv(name: string, defaultValue: string[] = []): string[] {
+    const value = process.env[name]
+    if (!value) return defaultValue
 
-    return allowedDirs.split(',').map(dir => dir.trim()).filter(dir => dir.length > 0)
+    return value.split(',').map(item => item.trim()).filter(item => item.length > 0)
 }
 
-function parseServerPort(): number {
+function parseServerPort(defaultPort: number): number {
     const port = process.env.PORT
-    if (!port) return 8099
+    if (!port) return defaultPort
 
     const parsedPort = parseInt(port, 10)
     if (isNaN(parsedPort) || parsedPort < 1 || parsedPort > 65535) {
-        console.warn(`Invalid SERVER_PORT: ${port}, using default: 8099`)
-        return 8099
+        console.warn(`Invalid SERVER_PORT: ${port}, using default: ${defaultPort}`)
+        return defaultPort
     }
 
     return parsedPort
 }
 
-function parseTransportType(): 'http' | 'stdio' {
+function parseIntegerEnv(name: string, defaultValue: number, min: number): number {
+    const value = process.env[name]
+    if (!value) return defaultValue
+
+    const parsedValue = parseInt(value, 10)
+    if (isNaN(parsedValue) || parsedValue < min) {
+        console.warn(`Invalid ${name}: ${value}, using default: ${defaultValue}`)
+        return defaultValue
+    }
+
+    return parsedValue
+}
+
+function parseBooleanEnv(name: string, defaultValue: boolean): boolean {
+    const value = process.env[name]
+    if (!value) return defaultValue
+
+    const normalizedValue = value.toLowerCase()
+    if (['true', '1', 'yes'].includes(normalizedValue)) return true
+    if (['false', '0', 'no'].includes(normalizedValue)) return false
+
+    console.warn(`Invalid ${name}: ${value}, using default: ${defaultValue}`)
+    return defaultValue
+}
+
+function parsePlotlyCodeMode(defaultMode: 'sandboxed' | 'trusted' | 'disabled'): 'sandboxed' | 'trusted' | 'disabled' {
+    const mode = process.env.PLOTLY_CODE_MODE
+    if (!mode) return defaultMode
+
+    const normalizedMode = mode.toLowerCase()
+    if (normalizedMode === 'sandboxed' || normalizedMode === 'trusted' || normalizedMode === 'disabled') {
+        return normalizedMode
+    }
+
+    console.warn(`Invalid PLOTLY_CODE_MODE: ${mode}, using default: ${defaultMode}`)
+    return defaultMode
+}
+
+function parseTransportType(defaultTransport: 'http' | 'stdio'): 'http' | 'stdio' {
     const transport = process.env.TRANSPORT_TYPE
-    if (!transport) return 'stdio'
+    if (!transport) return defaultTransport
 
     const normalizedTransport = transport.toLowerCase()
     if (normalizedTransport === 'http') return 'http'
     if (normalizedTransport === 'stdio') return 'stdio'
 
-    console.warn(`Invalid TRANSPORT_TYPE: ${transport}, using default: stdio`)
-    return 'stdio'
+    console.warn(`Invalid TRANSPORT_TYPE: ${transport}, using default: ${defaultTransport}`)
+    return defaultTransport
+}
+
+function parseMermaidSecurityLevel(transportType: 'http' | 'stdio', fileLevel?: MermaidSecurityLevel): MermaidSecurityLevel {
+    // Remote clients are untrusted, local stdio clients keep the old behavior
+    const defaultLevel: MermaidSecurityLevel = fileLevel ?? (transportType === 'http' ? 'strict' : 'loose')
+    const level = process.env.MERMAID_SECURITY_LEVEL
+    if (!level) return defaultLevel
+
+    const normalizedLevel = level.toLowerCase()
+    if (normalizedLevel === 'strict' || normalizedLevel === 'antiscript' || normalizedLevel === 'loose') {
+        return normalizedLevel
+    }
+
+    console.warn(`Invalid MERMAID_SECURITY_LEVEL: ${level}, using default: ${defaultLevel}`)
+    return defaultLevel
+}
+
+function parsePlantumlServerUrl(fileUrl?: string): string | undefined {
+    const serverUrl = process.env.PLANTUML_SERVER_URL || fileUrl
+    if (!serverUrl) return undefined
+
+    let url: URL
+    try {
+        url = new URL(serverUrl)
+    } catch {
+        console.warn(`Invalid PLANTUML_SERVER_URL: ${serverUrl}, PlantUML server disabled`)
+        return undefined
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        console.warn(`Invalid PLANTUML_SERVER_URL: ${serverUrl}, expected an http(s) URL, PlantUML server disabled`)
+        return undefined
+    }
+
+    // Diagram sources may be confidential, they must not leave for the public server
+    const hostname = url.hostname.toLowerCase()
+    if (hostname === 'plantuml.com' || hostname.endsWith('.plantuml.com')) {
+        console.warn(`PLANTUML_SERVER_URL must point to a local PlantUML server, not ${hostname}, PlantUML server disabled`)
+        return undefined
+    }
+
+    return serverUrl.replace(/\/+$/, '')
+}
+
+function parseApiKeys(fileKeys: ApiKey[] = []): ApiKey[] {
+    const entries = parseListEnv('API_KEYS')
+    const apiKeys = entries.length > 0
+        ? entries.map((entry, index) => {
+            const separator = entry.indexOf(':')
+            return separator > 0
+                ? { name: entry.slice(0, separator).trim(), token: entry.slice(separator + 1).trim() }
+                : { name: `key-${index + 1}`, token: entry }
+        })
+        : fileKeys
+
+    return apiKeys.map(apiKey => {
+        if (apiKey.token.length < 16) {
+            console.warn(`API key ${apiKey.name} is shorter than 16 characters`)
+        }
+        return apiKey
+    })
+}
+
+function parseRenderLimits(fileLimits: Partial<RenderLimits> = {}): RenderLimits {
+    const limit = (name: string, key: keyof RenderLimits, defaultValue: number, min: number) =>
+        parseIntegerEnv(name, fileLimits[key] ?? defaultValue, min)
+
+    const limits: RenderLimits = {
+        renderTimeoutMs: limit('RENDER_TIMEOUT_MS', 'renderTimeoutMs', 15000, 1),
+        maxRenderTimeoutMs: limit('MAX_RENDER_TIMEOUT_MS', 'maxRenderTimeoutMs', 120000, 1),
+        padding: limit('RENDER_PADDING', 'padding', 20, 0),
+        maxPadding: limit('MAX_RENDER_PADDING', 'maxPadding', 200, 0),
+        viewportWidth: limit('VIEWPORT_WIDTH', 'viewportWidth', 800, 1),
+        viewportHeight: limit('VIEWPORT_HEIGHT', 'viewportHeight', 600, 1),
+        maxViewportWidth: limit('MAX_VIEWPORT_WIDTH', 'maxViewportWidth', 4096, 1),
+        maxViewportHeight: limit('MAX_VIEWPORT_HEIGHT', 'maxViewportHeight', 4096, 1),
+        maxCodeLength: limit('MAX_CODE_LENGTH', 'maxCodeLength', 100000, 1),
+        maxOutputBytes: limit('MAX_OUTPUT_BYTES', 'maxOutputBytes', 20 * 1024 * 1024, 1),
+        maxPixelArea: limit('MAX_PIXEL_AREA', 'maxPixelArea', 50 * 1000 * 1000, 1)
+    }
+
+    // The server defaults must themselves be within the maximums
+    const bounded: Array<[keyof RenderLimits, keyof RenderLimits]> = [
+        ['renderTimeoutMs', 'maxRenderTimeoutMs'],
+        ['padding', 'maxPadding'],
+        ['viewportWidth', 'maxViewportWidth'],
+        ['viewportHeight', 'maxViewportHeight']
+    ]
+    for (const [key, maxKey] of bounded) {
+        if (limits[key] > limits[maxKey]) {
+            console.warn(`Render limit ${key} (${limits[key]}) is above ${maxKey}, using ${limits[maxKey]}`)
+            limits[key] = limits[maxKey]
+        }
+    }
+
+    return limits
+}
+
+function parseLogLevel(defaultLevel: LogLevel): LogLevel {
+    const level = process.env.LOG_LEVEL
+    if (!level) return defaultLevel
+
+    const parsed = LogLevelEnum.safeParse(level.toLowerCase())
+    if (parsed.success) {
+        return parsed.data
+    }
+
+    console.warn(`Invalid LOG_LEVEL: ${level}, using default: ${defaultLevel}`)
+    return defaultLevel
+}
+
+/**
+ * Builds the config from environment variables, falling back to the config
+ * file and then to the built-in defaults.
+ */
+function buildConfig(file: ConfigFile, configFile?: string): Config {
+    const transportType = parseTransportType(file.transportType ?? 'stdio')
+    const serverPort = parseServerPort(file.serverPort ?? 8099)
+
+    return {
+        staticDir: process.env.STATIC_DIR || file.staticDir || join(process.cwd(), 'temp-images'),
+        allowedDirs: parseListEnv('ALLOWED_DIRS', file.allowedDirs),
+        serverPort,
+        transportType,
+        mermaidVersion: process.env.MERMAID_VERSION || file.mermaidVersion || '11',
+        plotlyVersion: process.env.PLOTLY_VERSION || file.plotlyVersion || '3',
+        mermaidBundlePath: process.env.MERMAID_BUNDLE_PATH || file.mermaidBundlePath,
+        plotlyBundlePath: process.env.PLOTLY_BUNDLE_PATH || file.plotlyBundlePath,
+        maxConcurrentRenders: parseIntegerEnv('MAX_CONCURRENT_RENDERS', file.maxConcurrentRenders ?? 4, 1),
+        warmPages: parseIntegerEnv('WARM_PAGES', file.warmPages ?? 1, 0),
+        chromeNoSandbox: parseBooleanEnv('CHROME_NO_SANDBOX', file.chromeNoSandbox ?? false),
+        renderTtlSeconds: parseIntegerEnv('RENDER_TTL_SECONDS', file.renderTtlSeconds ?? 7 * 24 * 60 * 60, 0),
+        maxStoreBytes: parseIntegerEnv('RENDER_STORE_MAX_BYTES', file.maxStoreBytes ?? 500 * 1024 * 1024, 0),
+        cleanupIntervalSeconds: parseIntegerEnv('CLEANUP_INTERVAL_SECONDS', file.cleanupIntervalSeconds ?? 10 * 60, 0),
+        purgeOnStartup: parseBooleanEnv('PURGE_ON_STARTUP', file.purgeOnStartup ?? false),
+        plotlyCodeMode: parsePlotlyCodeMode(file.plotlyCodeMode ?? 'sandboxed'),
+        plotlyCodeTimeoutMs: parseIntegerEnv('PLOTLY_CODE_TIMEOUT_MS', file.plotlyCodeTimeoutMs ?? 5000, 1),
+        mermaidSecurityLevel: parseMermaidSecurityLevel(transportType, file.mermaidSecurityLevel),
+        themePresetsFile: process.env.THEME_PRESETS_FILE || file.themePresetsFile,
+        plantumlJar: process.env.PLANTUML_JAR || file.plantumlJar,
+        plantumlServerUrl: parsePlantumlServerUrl(file.plantumlServerUrl),
+        javaPath: process.env.JAVA_PATH || file.javaPath || 'java',
+        plantumlTimeoutMs: parseIntegerEnv('PLANTUML_TIMEOUT_MS', file.plantumlTimeoutMs ?? 20000, 1),
+        host: process.env.HOST || file.host || '127.0.0.1',
+        publicUrl: (process.env.PUBLIC_URL || file.publicUrl || `http://localhost:${serverPort}`).replace(/\/+$/, ''),
+        apiKeys: parseApiKeys(file.apiKeys),
+        staticUrlSecret: process.env.STATIC_URL_SECRET || file.staticUrlSecret,
+        staticUrlTtlSeconds: parseIntegerEnv('STATIC_URL_TTL_SECONDS', file.staticUrlTtlSeconds ?? 24 * 60 * 60, 1),
+        rateLimitPerMinute: parseIntegerEnv('RATE_LIMIT_PER_MINUTE', file.rateLimitPerMinute ?? 120, 0),
+        renderQuotaPerDay: parseIntegerEnv('RENDER_QUOTA_PER_DAY', file.renderQuotaPerDay ?? 0, 0),
+        corsOrigins: parseListEnv('CORS_ORIGINS', file.corsOrigins),
+        allowedHosts: parseListEnv('ALLOWED_HOSTS', file.allowedHosts),
+        maxRequestBytes: parseIntegerEnv('MAX_REQUEST_BYTES', file.maxRequestBytes ?? 5 * 1024 * 1024, 1),
+        sessionIdleTimeoutSeconds: parseIntegerEnv('SESSION_IDLE_TIMEOUT_SECONDS', file.sessionIdleTimeoutSeconds ?? 30 * 60, 1),
+        maxSessions: parseIntegerEnv('MAX_SESSIONS', file.maxSessions ?? 100, 1),
+        sessionEventHistory: parseIntegerEnv('SESSION_EVENT_HISTORY', file.sessionEventHistory ?? 500, 1),
+        sessionEventHistoryBytes: parseIntegerEnv('SESSION_EVENT_HISTORY_BYTES', file.sessionEventHistoryBytes ?? 5 * 1024 * 1024, 1),
+        limits: parseRenderLimits(file.limits),
+        logLevel: parseLogLevel(file.logLevel ?? 'info'),
+        logDir: process.env.LOG_DIR || file.logDir || join(process.cwd(), 'logs'),
+        themePresets: file.themePresets ?? {},
+        toolDefaults: file.defaults ?? {},
+        configFile
+    }
 }
 
-export const config: Config = {
-    staticDir: process.env.STATIC_DIR || join(process.cwd(), 'temp-images'),
-    allowedDirs: parseAllowedDirs(),
-    serverPort: parseServerPort(),
-    transportType: parseTransportType()
+/**
+ * Settings that are read on every render and can change while the server
+ * runs. Everything else is only read at startup.
+ */
+const RELOADABLE_SETTINGS = [
+    'logLevel',
+    'limits',
+    'toolDefaults',
+    'themePresets',
+    'plotlyCodeTimeoutMs',
+    'plantumlTimeoutMs',
+    'renderTtlSeconds',
+    'maxStoreBytes',
+    'staticUrlTtlSeconds'
+] as const satisfies ReadonlyArray<keyof Config>
+
+function loadInitialConfig(): Config {
+    try {
+        const configFile = findConfigFile()
+        return buildConfig(configFile ? readConfigFile(configFile) : {}, configFile)
+    } catch (error) {
+        // Nothing can start without a valid config, so fail before the logger exists
+        console.error((error as Error).message)
+        process.exit(1)
+    }
+}
+
+export const config: Config = loadInitialConfig()
+
+if (!existsSync(config.logDir)) {
+    mkdirSync(config.logDir, { recursive: true })
 }
 
 export const logger = pino({
-    level: 'info',
+    level: config.logLevel,
     transport: {
-        targets: createLoggerTransports(config.transportType)
+        targets: createLoggerTransports(config.transportType, config.logDir)
     }
 })
+
+const reloadListeners: Array<() => void> = []
+
+/**
+ * Registers `listener` to run after the config file was reloaded.
+ */
+export function onConfigReload(listener: () => void) {
+    reloadListeners.push(listener)
+}
+
+/**
+ * Rereads the config file and applies RELOADABLE_SETTINGS. An invalid file
+ * is reported and the running config is kept.
+ */
+export function reloadConfig() {
+    if (!config.configFile) {
+        return
+    }
+
+    let next: Config
+    try {
+        next = buildConfig(readConfigFile(config.configFile), config.configFile)
+    } catch (error) {
+        logger.error({ path: config.configFile, error: (error as Error).message }, 'Config file reload failed, keeping the current config')
+        return
+    }
+
+    const changed = (Object.keys(next) as Array<keyof Config>)
+        .filter(key => JSON.stringify(next[key]) !== JSON.stringify(config[key]))
+    const applied = changed.filter(key => (RELOADABLE_SETTINGS as ReadonlyArray<keyof Config>).includes(key))
+    const needRestart = changed.filter(key => !applied.includes(key))
+
+    for (const key of applied) {
+        Object.assign(config, { [key]: next[key] })
+    }
+    logger.level = config.logLevel
+
+    if (needRestart.length > 0) {
+        logger.warn({ settings: needRestart }, 'Changed settings take effect after a restart')
+    }
+    if (applied.length > 0) {
+        logger.info({ path: config.configFile, settings: applied }, 'Config file reloaded')
+        reloadListeners.forEach(listener => listener())
+    }
+}
+
+/**
+ * Polls the config file for changes. The watcher does not keep the process
+ * alive.
+ */
+export function watchConfigFile() {
+    if (!config.configFile) {
+        return
+    }
+
+    watchFile(config.configFile, { interval: 1000, persistent: false }, (current, previous) => {
+        if (current.mtimeMs !== previous.mtimeMs) {
+            reloadConfig()
+        }
+    })
+    logger.info({ path: config.configFile }, 'Watching config file for changes')
+}
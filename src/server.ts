@@ -1,26 +1,171 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
-import express from 'express'
+import { CallToolResult, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
+import express, { NextFunction, Request, Response } from 'express'
+import { z } from 'zod'
+import { randomUUID } from 'crypto'
+import assert from 'assert'
+import { extname } from 'path'
 import { renderMermaidTool } from './tools/render-diagram.js'
 import { renderPlotlyTool } from './tools/render-plotly.js'
-import { config, logger } from './config.js'
-import { FileManager } from './utils/file-manager.js'
+import { renderGraphvizTool } from './tools/render-graphviz.js'
+import { renderPlantumlTool } from './tools/render-plantuml.js'
+import { validateMermaidTool } from './tools/validate-mermaid.js'
+import { countBatchRenders, renderBatchTool } from './tools/render-batch.js'
+import { countMarkdownRenders, renderMarkdownTool } from './tools/render-markdown.js'
+import { config, logger, watchConfigFile } from './config.js'
+import { AssetManager } from './services/asset-manager.js'
+import { browserPool } from './services/browser-pool.js'
+import { ThemeManager } from './services/theme-manager.js'
+import { RenderRecord, RenderStore } from './utils/render-store.js'
+import { isRasterFormat, isTextFormat } from './utils/mime-types.js'
+import { authenticate, getClientId, isAuthEnabled, requireAuth } from './utils/auth.js'
+import { RateLimiter } from './utils/rate-limiter.js'
+import { isSigningEnabled, verifySignature } from './utils/signed-url.js'
+import { cors } from './utils/cors.js'
+import { checkHost } from './utils/host-check.js'
+import { createRenderContext } from './utils/render-context.js'
+import { MemoryEventStore } from './utils/event-store.js'
+import { Session, SessionManager } from './utils/session-manager.js'
+import { withBatchJobDefaults, withToolDefaults } from './utils/tool-defaults.js'
+import { RenderTool, RenderToolInput } from './tools/render-tool.js'
+import { DiagramResult } from './types.js'
 
-async function createMcpServer() {
+function toResource(record: RenderRecord) {
+    return {
+        uri: record.uri,
+        name: record.filename,
+        title: `${record.tool} ${record.format.toUpperCase()} (${record.createdAt})`,
+        mimeType: record.mimeType,
+        size: record.size,
+        _meta: {
+            tool: record.tool,
+            format: record.format,
+            createdAt: record.createdAt,
+            sourceHash: record.sourceHash,
+            source: record.source,
+            options: record.options
+        }
+    }
+}
+
+/**
+ * Builds the tool response for a render. Image output becomes an MCP image
+ * block, or an embedded resource for SVG and PDF, followed by the result
+ * without its data; everything else is returned as JSON text.
+ */
+function toToolResponse(result: DiagramResult): CallToolResult {
+    if (result.success && result.output_type === 'image' && result.data && result.mime_type) {
+        const { data, ...summary } = result
+        assert(isRasterFormat(result.format) || result.resource_uri, 'Non-raster image output must have a resource URI')
+        return {
+            content: [
+                isRasterFormat(result.format)
+                    ? {
+                        type: 'image',
+                        data,
+                        mimeType: result.mime_type,
+                    }
+                    : {
+                        type: 'resource',
+                        resource: {
+                            uri: result.resource_uri!,
+                            mimeType: result.mime_type,
+                            blob: data,
+                        },
+                    },
+                {
+                    type: 'text',
+                    text: JSON.stringify(summary, null, 2),
+                },
+            ],
+        }
+    }
+
+    return {
+        content: [
+            {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+            },
+        ],
+    }
+}
+
+/**
+ * Registers a render tool with its configured defaults. Render tools return
+ * failures as results, anything they throw is reported the same way.
+ */
+function registerRenderTool<S extends z.AnyZodObject>(server: McpServer, tool: RenderTool<S>, title: string) {
+    server.tool(
+        tool.name,
+        tool.description,
+        withToolDefaults(tool.name, tool.inputSchema.shape),
+        { title },
+        async (params, extra) => {
+            try {
+                const result = await tool.execute(params as RenderToolInput<S>, createRenderContext(extra))
+                return toToolResponse(result)
+            } catch (error) {
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: JSON.stringify({
+                                success: false,
+                                error: error instanceof Error ? error.message : 'Unknown error',
+                                format: params.format || 'svg'
+                            }, null, 2),
+                        },
+                    ],
+                }
+            }
+        }
+    )
+}
+
+/**
+ * `clientId` is the API key the session was opened with: its resources only
+ * hold that client's renders.
+ */
+async function createMcpServer(clientId?: string) {
     const server = new McpServer({
         name: 'diagram-mcp',
         version: '1.0.0',
     })
 
+    registerRenderTool(server, renderMermaidTool, 'Render Mermaid Diagram')
+    registerRenderTool(server, renderGraphvizTool, 'Render Graphviz Graph')
+    registerRenderTool(server, renderPlantumlTool, 'Render PlantUML Diagram')
+    registerRenderTool(server, renderPlotlyTool, 'Render Plotly Chart')
+
+    server.tool(
+        validateMermaidTool.name,
+        validateMermaidTool.description,
+        validateMermaidTool.inputSchema.shape,
+        { title: 'Validate Mermaid Diagram', readOnlyHint: true },
+        async (params, extra) => {
+            const result = await validateMermaidTool.execute(params, createRenderContext(extra))
+            return {
+                content: [
+                    {
+                        type: 'text',
+                        text: JSON.stringify(result, null, 2),
+                    },
+                ],
+            }
+        }
+    )
+
     server.tool(
-        renderMermaidTool.name,
-        renderMermaidTool.description,
-        renderMermaidTool.inputSchema.shape,
-        { title: 'Render Mermaid Diagram' },
-        async (params) => {
+        renderBatchTool.name,
+        renderBatchTool.description,
+        withBatchJobDefaults(renderBatchTool.inputSchema.shape),
+        { title: 'Render Diagram Batch' },
+        async (params, extra) => {
             try {
-                const result = await renderMermaidTool.execute(params)
+                const result = await renderBatchTool.execute(params, createRenderContext(extra))
                 return {
                     content: [
                         {
@@ -37,7 +182,7 @@ async function createMcpServer() {
                             text: JSON.stringify({
                                 success: false,
                                 error: error instanceof Error ? error.message : 'Unknown error',
-                                format: params.format || 'svg'
+                                results: []
                             }, null, 2),
                         },
                     ],
@@ -47,13 +192,13 @@ async function createMcpServer() {
     )
 
     server.tool(
-        renderPlotlyTool.name,
-        renderPlotlyTool.description,
-        renderPlotlyTool.inputSchema.shape,
-        { title: 'Render Plotly Chart' },
-        async (params) => {
+        renderMarkdownTool.name,
+        renderMarkdownTool.description,
+        withToolDefaults('render_markdown', renderMarkdownTool.inputSchema.shape),
+        { title: 'Render Markdown Diagrams' },
+        async (params, extra) => {
             try {
-                const result = await renderPlotlyTool.execute(params)
+                const result = await renderMarkdownTool.execute(params, createRenderContext(extra))
                 return {
                     content: [
                         {
@@ -70,7 +215,7 @@ async function createMcpServer() {
                             text: JSON.stringify({
                                 success: false,
                                 error: error instanceof Error ? error.message : 'Unknown error',
-                                format: params.format || 'svg'
+                                artifacts: []
                             }, null, 2),
                         },
                     ],
@@ -79,68 +224,263 @@ async function createMcpServer() {
         }
     )
 
+    server.registerResource(
+        'diagram',
+        new ResourceTemplate(`${RenderStore.URI_SCHEME}{id}`, {
+            list: async () => ({
+                resources: RenderStore.listForClient(clientId).map(toResource)
+            })
+        }),
+        {
+            title: 'Rendered Diagram',
+            description: 'A diagram or chart rendered by this server. Source code and render options are in _meta.'
+        },
+        async (uri, { id }) => {
+            const record = RenderStore.get(String(id))
+            if (!record || record.clientId !== clientId) {
+                throw new Error(`Resource not found: ${uri.href}`)
+            }
+
+            const content = await RenderStore.readContent(record.id)
+            return {
+                contents: [
+                    isTextFormat(record.format)
+                        ? { uri: uri.href, mimeType: record.mimeType, text: content.toString('utf-8'), _meta: toResource(record)._meta }
+                        : { uri: uri.href, mimeType: record.mimeType, blob: content.toString('base64'), _meta: toResource(record)._meta },
+                ],
+            }
+        }
+    )
+
+    const unsubscribe = RenderStore.onRegistered(record => {
+        if (record.clientId === clientId) {
+            server.sendResourceListChanged()
+        }
+    })
+    server.server.onclose = unsubscribe
+
     return server
 }
 
 let httpServer: any = null
 
+const sessions = new SessionManager({
+    idleTimeoutMs: config.sessionIdleTimeoutSeconds * 1000,
+    maxSessions: config.maxSessions
+})
+
+function sendJsonRpcError(res: Response, status: number, code: number, message: string) {
+    res.status(status).json({
+        jsonrpc: '2.0',
+        error: {
+            code,
+            message
+        },
+        id: null
+    })
+}
+
+/**
+ * Looks up the session of a request. Answers 404 for unknown or expired
+ * sessions, which tells the client to initialize a new one, and for sessions
+ * opened with a different API key.
+ */
+function findSession(req: Request, res: Response, sessionId: string): Session | undefined {
+    const session = sessions.get(sessionId)
+    if (!session || session.clientId !== req.auth?.clientId) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found')
+        return undefined
+    }
+    return session
+}
+
+async function handleSessionRequest(session: Session, req: Request, res: Response, body?: unknown) {
+    const done = sessions.track(session)
+    res.on('close', done)
+    try {
+        await session.transport.handleRequest(req, res, body)
+    } finally {
+        // SSE responses stay open after handleRequest returns
+        if (res.writableEnded) {
+            done()
+        }
+    }
+}
+
+const requestLimiter = new RateLimiter(config.rateLimitPerMinute, 60 * 1000)
+const renderQuota = new RateLimiter(config.renderQuotaPerDay, 24 * 60 * 60 * 1000)
+
+/**
+ * Number of renders in a JSON-RPC message or batch, as counted against the
+ * render quota. A render_batch call counts each of its jobs, twice for jobs
+ * a PDF bundle renders again, and a render_markdown call each diagram fence
+ * it would render.
+ */
+function countRenders(body: unknown): number {
+    const messages = Array.isArray(body) ? body : [body]
+    return messages.reduce((count: number, message) => {
+        if (message?.method !== 'tools/call' || typeof message.params?.name !== 'string') {
+            return count
+        }
+        if (message.params.name === renderBatchTool.name) {
+            return count + countBatchRenders(message.params.arguments)
+        }
+        if (message.params.name === renderMarkdownTool.name) {
+            return count + countMarkdownRenders(message.params.arguments)
+        }
+        return count + (message.params.name.startsWith('render_') ? 1 : 0)
+    }, 0)
+}
+
+function sendTooManyRequests(res: Response, retryAfterSeconds: number, message: string) {
+    res.set('Retry-After', String(retryAfterSeconds))
+    sendJsonRpcError(res, 429, -32000, message)
+}
+
+/**
+ * Applies the per-client request rate limit and daily render quota. Every
+ * authenticated route counts against the rate limit, only tool calls against
+ * the quota.
+ */
+function limitRequests(req: Request, res: Response, next: NextFunction) {
+    const clientId = getClientId(req)
+
+    const rate = requestLimiter.consume(clientId)
+    if (!rate.allowed) {
+        logger.warn({ clientId }, 'Rate limit exceeded')
+        sendTooManyRequests(res, rate.retryAfterSeconds, `Rate limit of ${config.rateLimitPerMinute} requests per minute exceeded`)
+        return
+    }
+
+    const renders = countRenders(req.body)
+    if (renders > 0) {
+        const quota = renderQuota.consume(clientId, renders)
+        if (!quota.allowed) {
+            logger.warn({ clientId, renders, remaining: quota.remaining }, 'Render quota exceeded')
+            sendTooManyRequests(res, quota.retryAfterSeconds, `Daily render quota of ${config.renderQuotaPerDay} exceeded, ${quota.remaining} renders left`)
+            return
+        }
+    }
+
+    next()
+}
+
+/**
+ * With STATIC_URL_SECRET set, artifacts are only served for a valid, unexpired
+ * signature or a valid API key.
+ */
+function requireStaticAccess(req: Request, res: Response, next: NextFunction) {
+    if (!isSigningEnabled()) {
+        next()
+        return
+    }
+
+    const filename = req.path.replace(/^\//, '')
+    // Requests with a key are counted under its name by the rate limit
+    const authInfo = isAuthEnabled() ? authenticate(req) : undefined
+    if (authInfo) {
+        req.auth = authInfo
+    }
+    if (verifySignature(filename, req.query.expires, req.query.signature) || authInfo) {
+        next()
+        return
+    }
+
+    res.status(403).json({ error: 'Link is invalid or has expired' })
+}
+
+// Documents and SVGs come from client input, so they must not run scripts
+// with the server's origin
+const STATIC_CONTENT_SECURITY_POLICY = "sandbox; default-src 'none'; img-src data: http: https:; style-src 'unsafe-inline'; font-src data:"
+
+function setStaticHeaders(res: Response, filePath: string) {
+    res.setHeader('X-Content-Type-Options', 'nosniff')
+    // Browsers refuse to show a PDF in a sandbox, and images run no scripts anyway
+    if (isTextFormat(extname(filePath).slice(1).toLowerCase())) {
+        res.setHeader('Content-Security-Policy', STATIC_CONTENT_SECURITY_POLICY)
+    }
+}
+
 async function startHttpServer(transportType: 'http' | 'stdio') {
     const app = express()
-    app.use(express.json())
+    app.use(checkHost)
+    app.use(cors)
+    app.use(express.json({ limit: config.maxRequestBytes }))
     if (transportType === 'http') {
-        app.post('/mcp', async (req, res) => {
+        app.post('/mcp', requireAuth, limitRequests, async (req, res) => {
             try {
-                const server = await createMcpServer()
+                const sessionId = req.headers['mcp-session-id']
+                if (typeof sessionId === 'string') {
+                    const session = findSession(req, res, sessionId)
+                    if (session) {
+                        await handleSessionRequest(session, req, res, req.body)
+                    }
+                    return
+                }
+
+                const messages = Array.isArray(req.body) ? req.body : [req.body]
+                if (!messages.some(message => isInitializeRequest(message))) {
+                    sendJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required')
+                    return
+                }
+
+                if (!await sessions.hasCapacity()) {
+                    sendJsonRpcError(res, 503, -32000, `Too many open sessions, at most ${config.maxSessions} are allowed`)
+                    return
+                }
+
+                const server = await createMcpServer(req.auth?.clientId)
                 const transport = new StreamableHTTPServerTransport({
-                    sessionIdGenerator: undefined,
+                    sessionIdGenerator: () => randomUUID(),
+                    eventStore: new MemoryEventStore({ maxEvents: config.sessionEventHistory, maxBytes: config.sessionEventHistoryBytes }),
+                    onsessioninitialized: (id) => {
+                        sessions.add({
+                            id,
+                            clientId: req.auth?.clientId,
+                            transport,
+                            createdAt: Date.now(),
+                            lastActivity: Date.now(),
+                            activeRequests: 0,
+                            close: () => server.close()
+                        })
+                    }
                 })
 
-                res.on('close', () => {
-                    logger.info('Request closed')
-                    transport.close()
-                    server.close()
-                })
+                // Runs on DELETE, eviction and shutdown alike
+                transport.onclose = () => {
+                    if (transport.sessionId) {
+                        sessions.remove(transport.sessionId)
+                    }
+                }
 
                 await server.connect(transport)
                 await transport.handleRequest(req, res, req.body)
             } catch (error) {
                 logger.error('Error handling MCP request:', error as Error)
                 if (!res.headersSent) {
-                    res.status(500).json({
-                        jsonrpc: '2.0',
-                        error: {
-                            code: -32603,
-                            message: 'Internal server error',
-                        },
-                        id: null,
-                    })
+                    sendJsonRpcError(res, 500, -32603, 'Internal server error')
                 }
             }
         })
 
-        app.get('/mcp', async (req, res) => {
-            logger.info('Received GET MCP request')
-            res.status(405).json({
-                jsonrpc: "2.0",
-                error: {
-                    code: -32000,
-                    message: "Method not allowed."
-                },
-                id: null
-            })
-        })
+        // GET opens the session's SSE stream for server notifications, DELETE ends the session
+        const handleSessionMethod = async (req: Request, res: Response) => {
+            const sessionId = req.headers['mcp-session-id']
+            if (typeof sessionId !== 'string') {
+                sendJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required')
+                return
+            }
 
-        app.delete('/mcp', async (req, res) => {
-            logger.info('Received DELETE MCP request')
-            res.status(405).json({
-                jsonrpc: "2.0",
-                error: {
-                    code: -32000,
-                    message: "Method not allowed."
-                },
-                id: null
-            })
-        })
+            const session = findSession(req, res, sessionId)
+            if (session) {
+                await handleSessionRequest(session, req, res)
+            }
+        }
+
+        app.get('/mcp', requireAuth, limitRequests, handleSessionMethod)
+        app.delete('/mcp', requireAuth, limitRequests, handleSessionMethod)
+
+        sessions.startSweep()
     }
     app.get('/', (req, res) => {
         res.json({
@@ -149,25 +489,51 @@ async function startHttpServer(transportType: 'http' | 'stdio') {
             description: 'Diagram MCP server',
             tools: [
                 renderMermaidTool.name,
-                renderPlotlyTool.name
+                renderGraphvizTool.name,
+                renderPlantumlTool.name,
+                renderPlotlyTool.name,
+                validateMermaidTool.name,
+                renderBatchTool.name,
+                renderMarkdownTool.name
             ],
-            staticDir: config.staticDir,
-            allowedDirs: config.allowedDirs,
+            // Server paths are only shown to local setups without authentication
+            ...(isAuthEnabled() ? {} : { staticDir: config.staticDir, allowedDirs: config.allowedDirs }),
             serverPort: config.serverPort,
             transportType: config.transportType
         })
     })
 
-    app.use('/static', express.static(config.staticDir))
+    app.get('/metrics', requireAuth, limitRequests, (req, res) => {
+        res.json({
+            browserPool: browserPool.getMetrics()
+        })
+    })
+
+    // The render index is a dotfile, it holds source code and options of every client
+    app.use('/static', requireStaticAccess, limitRequests, express.static(config.staticDir, { dotfiles: 'deny', setHeaders: setStaticHeaders }))
+
+    app.use((error: unknown, req: Request, res: Response, next: NextFunction) => {
+        // body-parser marks its errors with a `type`
+        const isTooLarge = typeof error === 'object' && error !== null && 'type' in error && error.type === 'entity.too.large'
+        if (!isTooLarge) {
+            next(error)
+            return
+        }
+
+        sendJsonRpcError(res, 413, -32000, `Request body is larger than ${config.maxRequestBytes} bytes`)
+    })
 
     return new Promise<void>((resolve, reject) => {
-        httpServer = app.listen(config.serverPort, (error) => {
+        httpServer = app.listen(config.serverPort, config.host, (error) => {
             if (error) {
                 reject(error)
             }
-            logger.info(`Server running on http://localhost:${config.serverPort}`)
-            logger.info(`MCP HTTP server available at http://localhost:${config.serverPort}/mcp`)
-            logger.info(`Static files available at http://localhost:${config.serverPort}`)
+            logger.info(`Server listening on ${config.host}:${config.serverPort}`)
+            logger.info(`MCP HTTP server available at ${config.publicUrl}/mcp`)
+            logger.info(`Static files available at ${config.publicUrl}/static`)
+            if (transportType === 'http' && !isAuthEnabled() && !['127.0.0.1', 'localhost', '::1'].includes(config.host)) {
+                logger.warn(`Listening on ${config.host} without API_KEYS, anyone who can reach the port can render`)
+            }
             resolve()
         })
 
@@ -189,6 +555,14 @@ async function startStdioServer() {
 async function shutdown(signal: string) {
     logger.info(`Received ${signal}. Shutting down gracefully...`)
 
+    await sessions.closeAll()
+
+    try {
+        await browserPool.close()
+    } catch (error) {
+        logger.warn('Failed to close browser pool:', error as Error)
+    }
+
     if (httpServer) {
         httpServer.close(() => {
             logger.info('HTTP server closed')
@@ -205,16 +579,24 @@ async function shutdown(signal: string) {
 }
 
 async function main() {
+    AssetManager.verifyAssets()
+    ThemeManager.loadPresets()
+    watchConfigFile()
+
     try {
-        await FileManager.cleanupTempDir()
+        await RenderStore.initialize()
     } catch (error) {
-        logger.warn('Failed to cleanup temp directory on startup:', error as Error)
+        logger.warn('Failed to initialize render store on startup:', error as Error)
     }
 
     process.on('SIGINT', () => shutdown('SIGINT'))
     process.on('SIGTERM', () => shutdown('SIGTERM'))
     process.on('SIGQUIT', () => shutdown('SIGQUIT'))
 
+    browserPool.warmUp().catch(error => {
+        logger.warn(error as Error, 'Failed to warm up browser pool')
+    })
+
     if (config.transportType === 'http') {
         await startHttpServer(config.transportType)
     } else {
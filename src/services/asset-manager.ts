@@ -0,0 +1,121 @@
+import { existsSync, readFileSync } from 'fs'
+import { createRequire } from 'module'
+import { dirname, join, resolve } from 'path'
+import assert from 'assert'
+import { config, logger } from '../config.js'
+
+const require = createRequire(import.meta.url)
+
+export type AssetLibrary = 'mermaid' | 'plotly'
+
+interface AssetDefinition {
+    packageName: string
+    bundleFile: string
+    envVar: string
+}
+
+export interface ResolvedAsset {
+    library: AssetLibrary
+    path: string
+    version?: string
+}
+
+const ASSETS: Record<AssetLibrary, AssetDefinition> = {
+    mermaid: { packageName: 'mermaid', bundleFile: 'dist/mermaid.min.js', envVar: 'MERMAID_BUNDLE_PATH' },
+    plotly: { packageName: 'plotly.js-dist-min', bundleFile: 'plotly.min.js', envVar: 'PLOTLY_BUNDLE_PATH' }
+}
+
+const scriptCache = new Map<AssetLibrary, string>()
+
+function matchesPinnedVersion(version: string, pinned: string): boolean {
+    return version === pinned || version.startsWith(`${pinned}.`)
+}
+
+export class AssetManager {
+    static getPinnedVersion(library: AssetLibrary): string {
+        return library === 'mermaid' ? config.mermaidVersion : config.plotlyVersion
+    }
+
+    static resolveAsset(library: AssetLibrary): ResolvedAsset {
+        const definition = ASSETS[library]
+        assert(definition, `Unknown asset library: ${library}`)
+
+        const overridePath = library === 'mermaid' ? config.mermaidBundlePath : config.plotlyBundlePath
+        if (overridePath) {
+            const bundlePath = resolve(overridePath)
+            if (!existsSync(bundlePath)) {
+                throw new Error(`${library} bundle not found at ${bundlePath} (set by ${definition.envVar})`)
+            }
+            return { library, path: bundlePath }
+        }
+
+        let packageJsonPath: string
+        try {
+            packageJsonPath = require.resolve(`${definition.packageName}/package.json`)
+        } catch {
+            throw new Error(`${library} bundle is missing: package '${definition.packageName}' is not installed. Install it or set ${definition.envVar} to a local bundle file`)
+        }
+
+        const { version } = JSON.parse(readFileSync(packageJsonPath, 'utf-8')) as { version: string }
+        const pinned = this.getPinnedVersion(library)
+        if (!matchesPinnedVersion(version, pinned)) {
+            throw new Error(`${library} bundle version mismatch: installed ${version}, pinned ${pinned}`)
+        }
+
+        const bundlePath = join(dirname(packageJsonPath), definition.bundleFile)
+        if (!existsSync(bundlePath)) {
+            throw new Error(`${library} bundle not found at ${bundlePath}`)
+        }
+
+        return { library, path: bundlePath, version }
+    }
+
+    /**
+     * Checks that every library bundle can be loaded. Called on startup so a
+     * missing or mismatched install fails fast instead of on the first render.
+     */
+    static verifyAssets(): ResolvedAsset[] {
+        const problems: string[] = []
+        const resolved: ResolvedAsset[] = []
+
+        for (const library of Object.keys(ASSETS) as AssetLibrary[]) {
+            try {
+                resolved.push(this.resolveAsset(library))
+            } catch (error) {
+                problems.push(error instanceof Error ? error.message : String(error))
+            }
+        }
+
+        if (problems.length > 0) {
+            throw new Error(`Offline render assets are unavailable:\n- ${problems.join('\n- ')}`)
+        }
+
+        for (const asset of resolved) {
+            logger.info({ library: asset.library, path: asset.path, version: asset.version }, 'Render asset loaded')
+        }
+        return resolved
+    }
+
+    static getScript(library: AssetLibrary): string {
+        const cached = scriptCache.get(library)
+        if (cached) {
+            return cached
+        }
+
+        const { path } = this.resolveAsset(library)
+        const content = readFileSync(path, 'utf-8')
+        assert(content.length > 0, `${library} bundle is empty: ${path}`)
+
+        scriptCache.set(library, content)
+        return content
+    }
+
+    /**
+     * Returns the bundle wrapped in an inline <script> tag. Any closing script
+     * tag inside the bundle is escaped so it cannot terminate the element early.
+     */
+    static getInlineScript(library: AssetLibrary): string {
+        const content = this.getScript(library).replace(/<\/script/gi, '<\\/script')
+        return `<script>${content}</script>`
+    }
+}
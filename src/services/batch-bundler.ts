@@ -0,0 +1,49 @@
+import JSZip from 'jszip'
+import { PDFDocument } from 'pdf-lib'
+import assert from 'assert'
+
+export interface BundleItem {
+    name: string
+    format: string
+    content: Buffer
+}
+
+export async function createZipBundle(items: BundleItem[]): Promise<Buffer> {
+    assert(items.length > 0, 'Bundle must contain at least one item')
+
+    const zip = new JSZip()
+    for (const item of items) {
+        zip.file(`${item.name}.${item.format}`, item.content)
+    }
+
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+}
+
+/**
+ * Joins renders into one PDF. PDF items keep their pages, PNG and JPG items
+ * each become a page of the image's size. Other formats must be converted to
+ * PDF by the caller first.
+ */
+export async function createPdfBundle(items: BundleItem[]): Promise<Buffer> {
+    assert(items.length > 0, 'Bundle must contain at least one item')
+
+    const bundle = await PDFDocument.create()
+
+    for (const item of items) {
+        if (item.format === 'pdf') {
+            const source = await PDFDocument.load(item.content)
+            const pages = await bundle.copyPages(source, source.getPageIndices())
+            pages.forEach(page => bundle.addPage(page))
+        } else if (item.format === 'png' || item.format === 'jpg' || item.format === 'jpeg') {
+            const image = item.format === 'png'
+                ? await bundle.embedPng(item.content)
+                : await bundle.embedJpg(item.content)
+            const page = bundle.addPage([image.width, image.height])
+            page.drawImage(image, { x: 0, y: 0, width: image.width, height: image.height })
+        } else {
+            throw new Error(`Cannot add ${item.format} to a PDF bundle: ${item.name}`)
+        }
+    }
+
+    return Buffer.from(await bundle.save())
+}
@@ -0,0 +1,401 @@
+import puppeteer, { Browser, Page } from 'puppeteer'
+import assert from 'assert'
+import { AssetLibrary, AssetManager } from './asset-manager.js'
+import { getDefaultViewport } from './render-limits.js'
+import { RenderCancelledError } from '../utils/render-context.js'
+import { config, logger } from '../config.js'
+
+export interface BrowserPoolOptions {
+    maxPages: number
+    warmPages: number
+}
+
+export interface BrowserPoolMetrics {
+    browserConnected: boolean
+    launches: number
+    maxPages: number
+    activePages: number
+    idlePages: Record<AssetLibrary, number>
+    queueDepth: number
+    peakQueueDepth: number
+    completedRenders: number
+    failedRenders: number
+    cancelledRenders: number
+}
+
+export interface ReleaseOptions {
+    reusable?: boolean
+}
+
+export interface WithPageOptions extends ReleaseOptions {
+    // Aborting closes the page, which stops whatever runs on it
+    signal?: AbortSignal
+}
+
+const ALLOWED_URL_SCHEMES = ['data:', 'blob:', 'about:']
+
+/**
+ * Policy of every render page. Frames created on the page inherit it, so
+ * diagram content or sandboxed Plotly code cannot open connections of any
+ * kind (fetch, XHR, WebSocket, EventSource, beacons) or load remote content.
+ * Plotly's WebGL traces compile shaders with `Function`, hence 'unsafe-eval'.
+ */
+const CONTENT_SECURITY_POLICY = [
+    "default-src 'none'",
+    "script-src 'unsafe-inline' 'unsafe-eval'",
+    "style-src 'unsafe-inline'",
+    'img-src data: blob:',
+    'font-src data:',
+    "connect-src 'none'",
+    "frame-src 'none'",
+    "worker-src 'none'",
+    "form-action 'none'"
+].join('; ')
+
+/**
+ * Network isolation that does not depend on the page. Host names do not
+ * resolve, all traffic goes to a proxy that does not exist, loopback
+ * included, and WebRTC may only use that proxy, so it cannot send UDP.
+ */
+const ISOLATION_ARGS = [
+    '--host-resolver-rules=MAP * ~NOTFOUND',
+    '--proxy-server=127.0.0.1:9',
+    '--proxy-bypass-list=<-loopback>',
+    '--force-webrtc-ip-handling-policy=disable_non_proxied_udp'
+]
+
+/**
+ * Chromium's own sandbox stays on unless the server is told the OS cannot
+ * provide one.
+ */
+function getLaunchArgs(): string[] {
+    const sandboxArgs = config.chromeNoSandbox ? ['--no-sandbox', '--disable-setuid-sandbox'] : []
+    return [...sandboxArgs, ...ISOLATION_ARGS]
+}
+
+/**
+ * Aborts every request from the page except inline data, so diagram content
+ * such as image links or click handlers cannot reach the network.
+ */
+async function blockNetworkRequests(page: Page) {
+    await page.setRequestInterception(true)
+    page.on('request', request => {
+        if (ALLOWED_URL_SCHEMES.some(scheme => request.url().startsWith(scheme))) {
+            request.continue()
+        } else {
+            logger.warn({ url: request.url() }, 'Blocked network request from render page')
+            request.abort('blockedbyclient')
+        }
+    })
+}
+
+/**
+ * Scripts a library's pages get once, when the shell is built. Plotly pages
+ * put uncaught errors on the page, where the renderer waits for them.
+ */
+const SHELL_SCRIPTS: Partial<Record<AssetLibrary, string>> = {
+    plotly: `
+          <script>
+            window.addEventListener('error', (event) => {
+              const errorElement = document.createElement('div')
+              errorElement.className = 'error-text'
+              errorElement.textContent = event.message
+              document.body.appendChild(errorElement)
+            })
+          </script>`
+}
+
+function buildShell(library: AssetLibrary): string {
+    return `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta http-equiv="Content-Security-Policy" content="${CONTENT_SECURITY_POLICY}">
+          ${AssetManager.getInlineScript(library)}
+          ${SHELL_SCRIPTS[library] ?? ''}
+          <style>
+            body { margin: 0; }
+          </style>
+          <style id="render-style"></style>
+        </head>
+        <body></body>
+        </html>
+      `
+}
+
+/**
+ * One Chromium instance shared by all render services. Pages are handed out
+ * with the library for their kind already loaded, at most `maxPages` at a
+ * time; callers beyond that wait in a FIFO queue.
+ */
+export class BrowserPool {
+    private browser: Browser | null = null
+    private launching: Promise<Browser> | null = null
+    private readonly idle: Record<AssetLibrary, Page[]> = { mermaid: [], plotly: [] }
+    private readonly warming: Record<AssetLibrary, number> = { mermaid: 0, plotly: 0 }
+    private readonly waiters: Array<() => void> = []
+    private activePages = 0
+    private launches = 0
+    private peakQueueDepth = 0
+    private completedRenders = 0
+    private failedRenders = 0
+    private cancelledRenders = 0
+    private closing = false
+
+    constructor(private readonly options: BrowserPoolOptions) {
+        assert(options.maxPages > 0, `maxPages must be positive, got: ${options.maxPages}`)
+        assert(options.warmPages >= 0, `warmPages must not be negative, got: ${options.warmPages}`)
+    }
+
+    private async getBrowser(): Promise<Browser> {
+        if (this.browser && this.browser.connected) {
+            return this.browser
+        }
+
+        if (!this.launching) {
+            this.launching = puppeteer.launch({
+                headless: true,
+                args: getLaunchArgs()
+            }).catch(error => {
+                if (!config.chromeNoSandbox) {
+                    logger.error('Chromium failed to start with its sandbox, set CHROME_NO_SANDBOX=true if the OS cannot provide one')
+                }
+                throw error
+            }).then(browser => {
+                this.launches++
+                this.browser = browser
+                browser.on('disconnected', () => this.handleDisconnect(browser))
+                logger.info({ launches: this.launches }, 'Browser launched')
+                return browser
+            }).finally(() => {
+                this.launching = null
+            })
+        }
+
+        return this.launching
+    }
+
+    private handleDisconnect(browser: Browser) {
+        if (this.browser !== browser) {
+            return
+        }
+
+        this.browser = null
+        this.idle.mermaid = []
+        this.idle.plotly = []
+
+        if (!this.closing) {
+            logger.warn('Browser disconnected, it will be relaunched on the next render')
+        }
+    }
+
+    private async createPage(library: AssetLibrary): Promise<Page> {
+        const browser = await this.getBrowser()
+        const page = await browser.newPage()
+        assert(page, 'Page must be created')
+
+        try {
+            await blockNetworkRequests(page)
+            await page.setViewport(getDefaultViewport())
+            await page.setContent(buildShell(library))
+        } catch (error) {
+            await page.close().catch(() => undefined)
+            throw error
+        }
+
+        return page
+    }
+
+    private replenish(library: AssetLibrary) {
+        if (this.closing) {
+            return
+        }
+
+        while (this.idle[library].length + this.warming[library] < this.options.warmPages) {
+            this.warming[library]++
+            this.createPage(library)
+                .then(page => {
+                    if (this.closing) {
+                        return page.close()
+                    }
+                    this.idle[library].push(page)
+                })
+                .catch(error => logger.warn({ error: (error as Error).message, library }, 'Failed to warm page'))
+                .finally(() => {
+                    this.warming[library]--
+                })
+        }
+    }
+
+    private async acquireSlot(signal?: AbortSignal) {
+        if (signal?.aborted) {
+            throw new RenderCancelledError()
+        }
+
+        if (this.activePages < this.options.maxPages) {
+            this.activePages++
+            return
+        }
+
+        await new Promise<void>((resolve, reject) => {
+            const waiter = () => {
+                signal?.removeEventListener('abort', onAbort)
+                resolve()
+            }
+            // A cancelled render leaves the queue without ever taking a slot
+            const onAbort = () => {
+                const index = this.waiters.indexOf(waiter)
+                if (index !== -1) {
+                    this.waiters.splice(index, 1)
+                }
+                reject(new RenderCancelledError())
+            }
+
+            this.waiters.push(waiter)
+            signal?.addEventListener('abort', onAbort, { once: true })
+            this.peakQueueDepth = Math.max(this.peakQueueDepth, this.waiters.length)
+            logger.debug({ queueDepth: this.waiters.length }, 'Render queued waiting for a free page')
+        })
+    }
+
+    private releaseSlot() {
+        const next = this.waiters.shift()
+        if (next) {
+            // Hand the slot straight to the next waiter without decrementing
+            next()
+        } else {
+            this.activePages--
+        }
+    }
+
+    async acquire(library: AssetLibrary, signal?: AbortSignal): Promise<Page> {
+        assert(!this.closing, 'Browser pool is closed')
+        await this.acquireSlot(signal)
+
+        try {
+            let page = this.idle[library].pop()
+            while (page && page.isClosed()) {
+                page = this.idle[library].pop()
+            }
+
+            if (!page) {
+                page = await this.createPage(library)
+            }
+
+            this.replenish(library)
+            return page
+        } catch (error) {
+            this.releaseSlot()
+            throw error
+        }
+    }
+
+    async release(page: Page, library: AssetLibrary, options: ReleaseOptions = {}) {
+        try {
+            if (page.isClosed()) {
+                return
+            }
+
+            const canReuse = options.reusable !== false
+                && !this.closing
+                && this.idle[library].length < this.options.warmPages
+
+            if (!canReuse) {
+                await page.close()
+                return
+            }
+
+            await page.evaluate(() => {
+                document.body.innerHTML = ''
+                document.body.removeAttribute('style')
+                const style = document.getElementById('render-style')
+                if (style) {
+                    style.textContent = ''
+                }
+            })
+            await page.setViewport(getDefaultViewport())
+            this.idle[library].push(page)
+        } catch (error) {
+            logger.warn({ error: (error as Error).message, library }, 'Failed to recycle page, closing it')
+            await page.close().catch(() => undefined)
+        } finally {
+            this.releaseSlot()
+        }
+    }
+
+    /**
+     * Runs `task` on a pooled page and always gives the page back. Pages whose
+     * task threw are closed rather than reused. When `signal` aborts, the page
+     * is closed at once and the call rejects with a RenderCancelledError.
+     */
+    async withPage<T>(library: AssetLibrary, task: (page: Page) => Promise<T>, options: WithPageOptions = {}): Promise<T> {
+        const { signal, ...releaseOptions } = options
+        const page = await this.acquire(library, signal)
+        const onAbort = () => {
+            page.close().catch(() => undefined)
+        }
+        signal?.addEventListener('abort', onAbort, { once: true })
+
+        try {
+            const result = await task(page)
+            if (signal?.aborted) {
+                throw new RenderCancelledError()
+            }
+            this.completedRenders++
+            await this.release(page, library, releaseOptions)
+            return result
+        } catch (error) {
+            await this.release(page, library, { reusable: false })
+            if (signal?.aborted) {
+                this.cancelledRenders++
+                logger.info({ library }, 'Render cancelled, page closed')
+                throw new RenderCancelledError()
+            }
+            this.failedRenders++
+            throw error
+        } finally {
+            signal?.removeEventListener('abort', onAbort)
+        }
+    }
+
+    async warmUp() {
+        this.replenish('mermaid')
+        this.replenish('plotly')
+    }
+
+    getMetrics(): BrowserPoolMetrics {
+        return {
+            browserConnected: this.browser !== null && this.browser.connected,
+            launches: this.launches,
+            maxPages: this.options.maxPages,
+            activePages: this.activePages,
+            idlePages: {
+                mermaid: this.idle.mermaid.length,
+                plotly: this.idle.plotly.length
+            },
+            queueDepth: this.waiters.length,
+            peakQueueDepth: this.peakQueueDepth,
+            completedRenders: this.completedRenders,
+            failedRenders: this.failedRenders,
+            cancelledRenders: this.cancelledRenders
+        }
+    }
+
+    async close() {
+        this.closing = true
+        const browser = this.browser
+        this.browser = null
+        this.idle.mermaid = []
+        this.idle.plotly = []
+
+        if (browser) {
+            await browser.close()
+        }
+    }
+}
+
+export const browserPool = new BrowserPool({
+    maxPages: config.maxConcurrentRenders,
+    warmPages: config.warmPages
+})
@@ -0,0 +1,151 @@
+import assert from 'assert'
+import { createRequire } from 'module'
+import { pathToFileURL } from 'url'
+import { Worker } from 'worker_threads'
+import { DiagramResult, GraphvizEngine, GraphvizEngineEnum, RenderGraphvizRequest } from '../types.js'
+import { renderWith, validateCaptureOptions } from './render-pipeline.js'
+import { SvgRenderer } from './renderers/svg-renderer.js'
+import { assertCodeLength, assertOutputSize, resolveRenderLimits } from './render-limits.js'
+import { parseGraphvizError } from '../utils/syntax-errors.js'
+import { RenderCancelledError, RenderContext, reportStage, throwIfCancelled } from '../utils/render-context.js'
+import { logger } from '../config.js'
+
+// The WASM layout is synchronous, it runs in a worker so that a timeout or a
+// cancelled request can stop it without blocking the event loop
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads')
+const graphviz = import(workerData.moduleUrl).then(({ Graphviz }) => Graphviz.load())
+parentPort.on('message', async ({ dotCode, engine }) => {
+    try {
+        const instance = await graphviz
+        parentPort.postMessage({ svg: instance.layout(dotCode, 'svg', engine) })
+    } catch (error) {
+        parentPort.postMessage({ error: error instanceof Error ? error.message : String(error) })
+    }
+})
+`
+
+const GRAPHVIZ_MODULE_URL = pathToFileURL(createRequire(import.meta.url).resolve('@hpcc-js/wasm-graphviz')).href
+
+export type GraphvizLayout = { svg: string, error?: undefined } | { svg?: undefined, error: string }
+
+let worker: Worker | null = null
+let queue: Promise<unknown> = Promise.resolve()
+
+function getWorker(): Worker {
+    if (!worker) {
+        const created = new Worker(WORKER_SOURCE, { eval: true, workerData: { moduleUrl: GRAPHVIZ_MODULE_URL } })
+        // An idle worker must not keep the process alive
+        created.unref()
+        created.on('error', error => logger.error({ error: error.message }, 'Graphviz worker failed'))
+        created.on('exit', () => {
+            if (worker === created) {
+                worker = null
+            }
+        })
+        worker = created
+    }
+    return worker
+}
+
+function stopWorker() {
+    const current = worker
+    worker = null
+    current?.terminate().catch(error => logger.warn({ error: (error as Error).message }, 'Failed to stop the Graphviz worker'))
+}
+
+function runLayout(dotCode: string, engine: GraphvizEngine, timeoutMs: number, signal?: AbortSignal): Promise<GraphvizLayout> {
+    if (signal?.aborted) {
+        return Promise.reject(new RenderCancelledError())
+    }
+
+    const current = getWorker()
+    return new Promise((resolve, reject) => {
+        const cleanUp = () => {
+            clearTimeout(timer)
+            signal?.removeEventListener('abort', onAbort)
+            current.off('message', onMessage)
+            current.off('exit', onExit)
+        }
+        const fail = (error: Error) => {
+            cleanUp()
+            stopWorker()
+            reject(error)
+        }
+        const onMessage = (layout: GraphvizLayout) => {
+            cleanUp()
+            resolve(layout)
+        }
+        const onExit = () => fail(new Error('Graphviz worker exited during layout'))
+        const onAbort = () => fail(new RenderCancelledError())
+        const timer = setTimeout(() => fail(new Error(`Graphviz layout did not finish within ${timeoutMs}ms`)), timeoutMs)
+
+        signal?.addEventListener('abort', onAbort, { once: true })
+        current.on('message', onMessage)
+        current.on('exit', onExit)
+        current.postMessage({ dotCode, engine })
+    })
+}
+
+export class GraphvizService {
+    /**
+     * Lays out DOT source with the WASM build of Graphviz in a worker thread,
+     * one layout at a time. Resolves with Graphviz's own message for invalid
+     * source; rejects, and stops the worker, on timeout or cancellation.
+     */
+    layout(dotCode: string, engine: GraphvizEngine, timeoutMs: number, signal?: AbortSignal): Promise<GraphvizLayout> {
+        // The timeout starts when the layout does, not while it waits its turn
+        const layout = queue.then(() => runLayout(dotCode, engine, timeoutMs, signal))
+        queue = layout.catch(() => undefined)
+        return layout
+    }
+
+    async renderGraphviz(request: RenderGraphvizRequest, context: RenderContext = {}): Promise<DiagramResult> {
+        let svg: string
+        try {
+            assert(request, 'Request is required')
+            assert(request.dotCode, 'DOT code is required')
+            assert(request.dotCode.trim().length > 0, 'DOT code cannot be empty')
+            assertCodeLength(request.dotCode, 'DOT code')
+            assert(GraphvizEngineEnum.options.includes(request.engine), `Invalid engine: ${request.engine}`)
+            validateCaptureOptions(request)
+            const { timeoutMs } = resolveRenderLimits(request)
+            throwIfCancelled(context)
+
+            const layout = await this.layout(request.dotCode, request.engine, timeoutMs, context.signal)
+            if (layout.error !== undefined) {
+                const syntaxError = parseGraphvizError(layout.error, request.dotCode)
+                return {
+                    success: false,
+                    error: `${syntaxError.line !== undefined ? 'Graphviz syntax error' : 'Graphviz error'}: ${syntaxError.message}`,
+                    format: request.format,
+                    syntaxError
+                }
+            }
+            svg = layout.svg
+            assert(svg, 'SVG content must be generated')
+            assert(svg.includes('<svg'), 'Graphviz output must contain an SVG element')
+            assertOutputSize(Buffer.byteLength(svg))
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error occurred',
+                format: request.format
+            }
+        }
+
+        // SVG needs no browser, the layout already is the result
+        if (request.format === 'svg') {
+            reportStage(context, 'rendered')
+            reportStage(context, 'exported')
+            return {
+                success: true,
+                // Graphviz puts an XML prolog and a doctype in front of the SVG
+                data: svg.slice(svg.indexOf('<svg')),
+                format: 'svg'
+            }
+        }
+
+        return renderWith(new SvgRenderer(svg, request.backgroundColor), request, context)
+    }
+}
@@ -0,0 +1,47 @@
+import sharp from 'sharp'
+import assert from 'assert'
+
+export interface EncodeOptions {
+    quality?: number
+    lossless?: boolean
+}
+
+/**
+ * Returns the screenshot type Chromium should capture for a format. Formats
+ * Chromium cannot produce itself are captured as PNG and re-encoded.
+ */
+export function getScreenshotType(format: string, lossless?: boolean): 'png' | 'jpeg' | 'webp' {
+    if (format === 'jpg') {
+        return 'jpeg'
+    }
+    if (format === 'webp' && !lossless) {
+        return 'webp'
+    }
+    return 'png'
+}
+
+/**
+ * Quality used when the request sets none. AVIF holds up at a much lower
+ * setting than JPG and WebP.
+ */
+export function getDefaultQuality(format: string): number {
+    return format === 'avif' ? 60 : 90
+}
+
+export function requiresEncoding(format: string, lossless?: boolean): boolean {
+    return format === 'avif' || (format === 'webp' && lossless === true)
+}
+
+export async function encodeImage(png: Uint8Array, format: string, options: EncodeOptions = {}): Promise<Uint8Array> {
+    assert(png.length > 0, 'Image data must not be empty')
+
+    const image = sharp(Buffer.from(png))
+    if (format === 'avif') {
+        return image.avif({ quality: options.quality ?? getDefaultQuality(format), lossless: options.lossless === true }).toBuffer()
+    }
+    if (format === 'webp') {
+        return image.webp({ quality: options.quality ?? getDefaultQuality(format), lossless: options.lossless === true }).toBuffer()
+    }
+
+    throw new Error(`Unsupported encode format: ${format}`)
+}
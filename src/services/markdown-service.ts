@@ -0,0 +1,65 @@
+import { marked } from 'marked'
+import assert from 'assert'
+import { PdfOptions } from '../types.js'
+import { browserPool } from './browser-pool.js'
+import { exportPdf } from './pdf-export.js'
+import { escapeHtml } from '../utils/html-utils.js'
+
+const DOCUMENT_STYLE = `
+    body { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; line-height: 1.6; color: #1f2328; max-width: 960px; margin: 0 auto; padding: 32px; }
+    pre { background: #f6f8fa; padding: 12px; overflow-x: auto; border-radius: 6px; }
+    code { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 0.9em; }
+    table { border-collapse: collapse; }
+    th, td { border: 1px solid #d0d7de; padding: 6px 12px; }
+    img, svg { max-width: 100%; height: auto; }
+    .diagram { margin: 16px 0; text-align: center; }
+`
+
+// Raw HTML in the Markdown is kept, so the document itself forbids scripts
+// wherever it is opened. Diagram links may point to any host.
+const DOCUMENT_CONTENT_SECURITY_POLICY = "default-src 'none'; img-src data: http: https:; style-src 'unsafe-inline'; font-src data:"
+
+const DEFAULT_DOCUMENT_MARGIN = { top: '15mm', right: '15mm', bottom: '15mm', left: '15mm' }
+
+export class MarkdownService {
+    toHtml(markdown: string, title?: string): string {
+        assert(markdown, 'Markdown is required')
+
+        const body = marked.parse(markdown, { async: false, gfm: true })
+        return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="${DOCUMENT_CONTENT_SECURITY_POLICY}">
+<title>${escapeHtml(title || 'Document')}</title>
+<style>${DOCUMENT_STYLE}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`
+    }
+
+    /**
+     * Prints an HTML document on paper sized pages. Scripts are disabled and
+     * the page cannot reach the network, so images must be inlined.
+     */
+    async toPdf(html: string, options: PdfOptions = {}, signal?: AbortSignal): Promise<Uint8Array> {
+        assert(html, 'HTML is required')
+
+        return browserPool.withPage('mermaid', async (page) => {
+            await page.setJavaScriptEnabled(false)
+            await page.setContent(html, { waitUntil: 'load' })
+
+            const buffer = await exportPdf(page, 'body', {
+                paperSize: 'A4',
+                margin: DEFAULT_DOCUMENT_MARGIN,
+                ...options,
+                fitToDiagram: false
+            })
+            assert(buffer.length > 0, 'PDF must not be empty')
+            return buffer
+        }, { reusable: false, signal })
+    }
+}
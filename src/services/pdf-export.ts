@@ -0,0 +1,115 @@
+import { Page, PDFOptions } from 'puppeteer'
+import assert from 'assert'
+import { PdfOptions } from '../types.js'
+
+type MarginValue = number | string | undefined
+
+const UNIT_TO_PIXELS: Record<string, number> = {
+    px: 1,
+    in: 96,
+    cm: 96 / 2.54,
+    mm: 96 / 25.4
+}
+
+function toPixels(value: MarginValue): number {
+    if (value === undefined) {
+        return 0
+    }
+
+    if (typeof value === 'number') {
+        return value
+    }
+
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(px|in|cm|mm)?$/i)
+    assert(match, `Invalid PDF margin: ${value}`)
+    return parseFloat(match[1]) * UNIT_TO_PIXELS[(match[2] || 'px').toLowerCase()]
+}
+
+function toMargin(options: PdfOptions) {
+    const margin = options.margin || {}
+    return {
+        top: `${toPixels(margin.top)}px`,
+        right: `${toPixels(margin.right)}px`,
+        bottom: `${toPixels(margin.bottom)}px`,
+        left: `${toPixels(margin.left)}px`
+    }
+}
+
+/**
+ * Swaps the rendered content for a screenshot of it, for diagrams whose
+ * filters or fonts do not survive the vector print path.
+ */
+async function rasterize(page: Page, selector: string) {
+    const element = await page.$(selector)
+    assert(element, `PDF content element must be found: ${selector}`)
+    const boundingBox = await element.boundingBox()
+    assert(boundingBox, 'PDF content bounding box must be obtained')
+
+    const screenshot = await page.screenshot({ type: 'png', clip: boundingBox, captureBeyondViewport: true })
+
+    await page.evaluate((source, selector, width, height) => {
+        const image = document.createElement('img')
+        image.src = source
+        image.style.display = 'block'
+        image.style.width = `${width}px`
+        image.style.height = `${height}px`
+        document.querySelector(selector)!.replaceWith(image)
+        image.setAttribute('data-rasterized', 'true')
+        return image.decode()
+    }, `data:image/png;base64,${Buffer.from(screenshot).toString('base64')}`, selector, boundingBox.width, boundingBox.height)
+
+    return 'img[data-rasterized]'
+}
+
+/**
+ * Prints the page to PDF. By default the page is sized to the bounding box of
+ * `selector` plus margins; with `fitToDiagram: false` or a `paperSize` it uses
+ * a paper format instead, where `landscape` applies.
+ */
+export async function exportPdf(page: Page, selector: string, options: PdfOptions = {}): Promise<Uint8Array> {
+    const scale = options.scale ?? 1
+    const margin = toMargin(options)
+    const fitToDiagram = options.fitToDiagram ?? options.paperSize === undefined
+
+    let contentSelector = selector
+    if (options.vector === false) {
+        contentSelector = await rasterize(page, selector)
+    }
+
+    if (!fitToDiagram) {
+        return page.pdf({
+            format: options.paperSize || 'A4',
+            landscape: options.landscape,
+            margin,
+            scale,
+            printBackground: true
+        })
+    }
+
+    // Drop the body padding so the content starts at the page origin
+    await page.evaluate(() => {
+        document.body.style.padding = '0'
+    })
+
+    const element = await page.$(contentSelector)
+    assert(element, `PDF content element must be found: ${contentSelector}`)
+    const boundingBox = await element.boundingBox()
+    assert(boundingBox, 'PDF content bounding box must be obtained')
+    assert(boundingBox.width > 0 && boundingBox.height > 0, 'PDF content must not be empty')
+
+    const contentWidth = Math.ceil(boundingBox.width * scale)
+    const contentHeight = Math.ceil(boundingBox.height * scale)
+    const horizontal = toPixels(options.margin?.left) + toPixels(options.margin?.right)
+    const vertical = toPixels(options.margin?.top) + toPixels(options.margin?.bottom)
+
+    const pdfOptions: PDFOptions = {
+        width: `${contentWidth + horizontal}px`,
+        height: `${contentHeight + vertical}px`,
+        margin,
+        scale,
+        pageRanges: '1',
+        printBackground: true
+    }
+
+    return page.pdf(pdfOptions)
+}
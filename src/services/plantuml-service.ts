@@ -0,0 +1,209 @@
+import { spawn } from 'child_process'
+import assert from 'assert'
+import { DiagramResult, MermaidSyntaxError, RenderPlantumlRequest } from '../types.js'
+import { renderWith, validateCaptureOptions } from './render-pipeline.js'
+import { SvgRenderer } from './renderers/svg-renderer.js'
+import { assertCodeLength, assertOutputSize, resolveRenderLimits } from './render-limits.js'
+import { buildSnippet } from '../utils/syntax-errors.js'
+import { RenderCancelledError, RenderContext, reportStage, throwIfCancelled } from '../utils/render-context.js'
+import { config } from '../config.js'
+
+/**
+ * Thrown for errors in the diagram source, as opposed to a renderer that
+ * cannot be reached.
+ */
+class PlantumlSyntaxError extends Error {
+    constructor(readonly syntaxError: MermaidSyntaxError) {
+        super(syntaxError.message)
+    }
+}
+
+/**
+ * Sources without an @start line are wrapped in @startuml/@enduml. Returns the
+ * number of lines added in front, to map error lines back to the request.
+ */
+export function wrapSource(code: string): { source: string, lineOffset: number } {
+    if (/^\s*@start\w+/m.test(code)) {
+        return { source: code, lineOffset: 0 }
+    }
+    return { source: `@startuml\n${code}\n@enduml\n`, lineOffset: 1 }
+}
+
+export function toSyntaxError(code: string, message: string, position: number | undefined, lineOffset: number): MermaidSyntaxError {
+    if (position === undefined || isNaN(position)) {
+        return { message }
+    }
+
+    // PlantUML counts lines from 0
+    const line = Math.max(position + 1 - lineOffset, 1)
+    return { message, line, snippet: buildSnippet(code, line) }
+}
+
+function runJar(source: string, timeoutMs: number, signal?: AbortSignal): Promise<{ stdout: string, stderr: string, exitCode: number | null }> {
+    assert(config.plantumlJar, 'PLANTUML_JAR is not set')
+
+    return new Promise((resolve, reject) => {
+        // The sandbox profile keeps !include and friends away from local files and URLs
+        const child = spawn(config.javaPath, [
+            '-Djava.awt.headless=true',
+            '-DPLANTUML_SECURITY_PROFILE=SANDBOX',
+            '-jar', config.plantumlJar!,
+            '-tsvg', '-pipe', '-charset', 'UTF-8'
+        ], { stdio: ['pipe', 'pipe', 'pipe'] })
+
+        const stdout: Buffer[] = []
+        const stderr: Buffer[] = []
+        let outputBytes = 0
+        let failure: Error | null = null
+
+        const fail = (error: Error) => {
+            failure = failure ?? error
+            child.kill('SIGKILL')
+        }
+        const timer = setTimeout(() => fail(new Error(`PlantUML did not finish within ${timeoutMs}ms`)), timeoutMs)
+        const onAbort = () => fail(new RenderCancelledError())
+        signal?.addEventListener('abort', onAbort, { once: true })
+
+        child.stdout.on('data', (chunk: Buffer) => {
+            outputBytes += chunk.length
+            if (outputBytes > config.limits.maxOutputBytes) {
+                fail(new Error(`PlantUML output is larger than ${config.limits.maxOutputBytes} bytes`))
+                return
+            }
+            stdout.push(chunk)
+        })
+        child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk))
+        child.on('error', error => {
+            clearTimeout(timer)
+            signal?.removeEventListener('abort', onAbort)
+            reject(new Error(`Failed to start PlantUML with ${config.javaPath}: ${error.message}`))
+        })
+        child.on('close', exitCode => {
+            clearTimeout(timer)
+            signal?.removeEventListener('abort', onAbort)
+            if (failure) {
+                reject(failure)
+                return
+            }
+            resolve({
+                stdout: Buffer.concat(stdout).toString('utf-8'),
+                stderr: Buffer.concat(stderr).toString('utf-8'),
+                exitCode
+            })
+        })
+
+        child.stdin.on('error', () => undefined)
+        child.stdin.end(source, 'utf-8')
+    })
+}
+
+export class PlantumlService {
+    static isConfigured(): boolean {
+        return Boolean(config.plantumlJar || config.plantumlServerUrl)
+    }
+
+    /**
+     * Renders with the local jar. In pipe mode PlantUML reports source errors
+     * on stderr as "ERROR", the line and the message, one per line.
+     */
+    private async renderWithJar(code: string, timeoutMs: number, signal?: AbortSignal): Promise<string> {
+        const { source, lineOffset } = wrapSource(code)
+        const { stdout, stderr, exitCode } = await runJar(source, timeoutMs, signal)
+
+        const errorLines = stderr.trim().split(/\r?\n/)
+        if (errorLines[0] === 'ERROR') {
+            const message = errorLines.slice(2).join(' ').trim() || 'Syntax error'
+            throw new PlantumlSyntaxError(toSyntaxError(code, message, Number(errorLines[1]), lineOffset))
+        }
+
+        if (exitCode !== 0) {
+            throw new Error(`PlantUML exited with code ${exitCode}: ${stderr.trim() || 'no error output'}`)
+        }
+
+        return stdout
+    }
+
+    /**
+     * Renders with a PlantUML server. It answers source errors with status 400
+     * and the error in X-PlantUML-Diagram-Error headers.
+     */
+    private async renderWithServer(code: string, timeoutMs: number, signal?: AbortSignal): Promise<string> {
+        assert(config.plantumlServerUrl, 'PLANTUML_SERVER_URL is not set')
+        const { source, lineOffset } = wrapSource(code)
+
+        let response: Response
+        try {
+            response = await fetch(`${config.plantumlServerUrl}/svg`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+                body: source,
+                signal: signal
+                    ? AbortSignal.any([signal, AbortSignal.timeout(timeoutMs)])
+                    : AbortSignal.timeout(timeoutMs)
+            })
+        } catch (error) {
+            throw signal?.aborted ? new RenderCancelledError() : error
+        }
+
+        const diagramError = response.headers.get('x-plantuml-diagram-error')
+        if (diagramError) {
+            const errorLine = response.headers.get('x-plantuml-diagram-error-line')
+            throw new PlantumlSyntaxError(toSyntaxError(code, diagramError, errorLine ? Number(errorLine) : undefined, lineOffset))
+        }
+
+        if (!response.ok) {
+            throw new Error(`PlantUML server responded with ${response.status} ${response.statusText}`)
+        }
+
+        return response.text()
+    }
+
+    async renderPlantuml(request: RenderPlantumlRequest, context: RenderContext = {}): Promise<DiagramResult> {
+        let svg: string
+        try {
+            assert(request, 'Request is required')
+            assert(request.plantumlCode, 'PlantUML code is required')
+            assert(request.plantumlCode.trim().length > 0, 'PlantUML code cannot be empty')
+            assertCodeLength(request.plantumlCode, 'PlantUML code')
+            assert(PlantumlService.isConfigured(), 'PlantUML is not configured: set PLANTUML_JAR or PLANTUML_SERVER_URL')
+            validateCaptureOptions(request)
+            // PlantUML has its own default, a request's timeoutMs and the maximum still apply
+            const { timeoutMs } = resolveRenderLimits({ ...request, timeoutMs: request.timeoutMs ?? config.plantumlTimeoutMs })
+
+            // The jar is preferred, it needs no running server
+            svg = config.plantumlJar
+                ? await this.renderWithJar(request.plantumlCode, timeoutMs, context.signal)
+                : await this.renderWithServer(request.plantumlCode, timeoutMs, context.signal)
+            throwIfCancelled(context)
+            assert(svg.includes('<svg'), 'PlantUML output must contain an SVG element')
+            assertOutputSize(Buffer.byteLength(svg))
+        } catch (error) {
+            if (error instanceof PlantumlSyntaxError) {
+                return {
+                    success: false,
+                    error: `PlantUML syntax error: ${error.message}`,
+                    format: request.format,
+                    syntaxError: error.syntaxError
+                }
+            }
+
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error occurred',
+                format: request.format
+            }
+        }
+
+        if (request.format === 'svg') {
+            reportStage(context, 'rendered')
+            reportStage(context, 'exported')
+            return {
+                success: true,
+                data: svg.slice(svg.indexOf('<svg')),
+                format: 'svg'
+            }
+        }
+
+        return renderWith(new SvgRenderer(svg, request.backgroundColor), request, context)
+    }
+}
@@ -0,0 +1,83 @@
+import { Page } from 'puppeteer'
+import assert from 'assert'
+import { config } from '../config.js'
+import { withTimeout } from '../utils/timeout.js'
+
+/**
+ * Removes the page APIs user code could use to evaluate strings or reach the
+ * network. Plotly is already loaded at this point, so it keeps working for the
+ * SVG based trace types. Code can get these back from a new frame, so this
+ * only raises the bar: the network is closed by the page's Content Security
+ * Policy and the browser's launch flags (see browser-pool.ts).
+ */
+export async function lockDownPage(page: Page) {
+    await page.evaluate(() => {
+        const blocked = (name: string) => function () {
+            throw new Error(`${name} is disabled in sandboxed Plotly code`)
+        }
+
+        const globals = window as any
+        globals.eval = blocked('eval')
+
+        const blockedFunction = blocked('Function')
+        for (const prototype of [
+            Function.prototype,
+            Object.getPrototypeOf(async function () { }),
+            Object.getPrototypeOf(function* () { }),
+            Object.getPrototypeOf(async function* () { })
+        ]) {
+            Object.defineProperty(prototype, 'constructor', { value: blockedFunction })
+        }
+        globals.Function = blockedFunction
+
+        for (const name of ['setTimeout', 'setInterval']) {
+            const original = globals[name]
+            globals[name] = (handler: unknown, ...args: unknown[]) => {
+                if (typeof handler !== 'function') {
+                    throw new Error(`${name} with a string is disabled in sandboxed Plotly code`)
+                }
+                return original(handler, ...args)
+            }
+        }
+
+        for (const name of ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'Worker', 'SharedWorker', 'RTCPeerConnection', 'open']) {
+            globals[name] = blocked(name)
+        }
+        if (navigator.sendBeacon) {
+            navigator.sendBeacon = blocked('sendBeacon') as any
+        }
+    })
+}
+
+/**
+ * Runs user supplied Plotly code on the page. In `sandboxed` mode the page is
+ * locked down first and the code gets `plotlyCodeTimeoutMs` to finish. Code
+ * that fails or runs out of time is stopped by closing the page, a busy loop
+ * would keep its renderer otherwise. The caller must not reuse the page
+ * afterwards.
+ */
+export async function runPlotlyCode(page: Page, plotlyCode: string, plotlyConfig: Record<string, unknown>) {
+    assert(config.plotlyCodeMode !== 'disabled', 'plotlyCode input is disabled on this server, use figure instead')
+
+    if (config.plotlyCodeMode === 'sandboxed') {
+        await lockDownPage(page)
+    }
+
+    const script = page.addScriptTag({
+        content: `{
+            const config = ${JSON.stringify(plotlyConfig)};
+            ${plotlyCode}
+        }`
+    })
+
+    try {
+        await withTimeout(
+            script,
+            config.plotlyCodeTimeoutMs,
+            `Plotly code did not finish within ${config.plotlyCodeTimeoutMs}ms`
+        )
+    } catch (error) {
+        await page.close().catch(() => undefined)
+        throw error
+    }
+}
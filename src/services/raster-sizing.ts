@@ -0,0 +1,102 @@
+import { ElementHandle, Page } from 'puppeteer'
+import assert from 'assert'
+import { assertPixelArea } from './render-limits.js'
+
+export interface RasterSizing {
+    width?: number
+    height?: number
+    scale?: number
+    maxWidth?: number
+    maxHeight?: number
+}
+
+export interface RasterCapture {
+    clip: {
+        x: number
+        y: number
+        width: number
+        height: number
+    }
+    deviceScaleFactor: number
+    size: {
+        width: number
+        height: number
+    }
+}
+
+const MAX_DEVICE_SCALE_FACTOR = 8
+
+/**
+ * Picks the device pixel ratio for a capture. `width`/`height` scale the
+ * diagram to fit that CSS size and `scale` multiplies on top; with
+ * `maxWidth`/`maxHeight` the ratio is lowered so the image fits, or, when no
+ * size or scale is given, set so the image fills the bounds.
+ */
+export function computeDeviceScaleFactor(clipWidth: number, clipHeight: number, sizing: RasterSizing): number {
+    assert(clipWidth > 0 && clipHeight > 0, 'Clip size must be positive')
+
+    const fits: number[] = []
+    if (sizing.width !== undefined) {
+        fits.push(sizing.width / clipWidth)
+    }
+    if (sizing.height !== undefined) {
+        fits.push(sizing.height / clipHeight)
+    }
+
+    const limits: number[] = []
+    if (sizing.maxWidth !== undefined) {
+        limits.push(sizing.maxWidth / clipWidth)
+    }
+    if (sizing.maxHeight !== undefined) {
+        limits.push(sizing.maxHeight / clipHeight)
+    }
+
+    let factor = (fits.length > 0 ? Math.min(...fits) : 1) * (sizing.scale ?? 1)
+    if (limits.length > 0) {
+        factor = sizing.scale !== undefined || fits.length > 0
+            ? Math.min(factor, ...limits)
+            : Math.min(...limits)
+    }
+
+    return Math.min(Math.max(factor, 0.1), MAX_DEVICE_SCALE_FACTOR)
+}
+
+/**
+ * Sets the viewport's device scale factor for the capture and returns the clip
+ * rectangle, the whole diagram, together with the pixel size the screenshot
+ * will have. Captures
+ * above the server's pixel area limit are rejected before the viewport grows.
+ */
+export async function prepareRasterCapture(page: Page, element: ElementHandle, sizing: RasterSizing): Promise<RasterCapture> {
+    const initialBox = await element.boundingBox()
+    assert(initialBox, 'Bounding box must be obtained before capture')
+
+    const deviceScaleFactor = computeDeviceScaleFactor(initialBox.width, initialBox.height, sizing)
+    assertPixelArea(initialBox.width * deviceScaleFactor, initialBox.height * deviceScaleFactor)
+
+    const viewport = page.viewport()
+    assert(viewport, 'Page viewport must be set')
+    if (viewport.deviceScaleFactor !== deviceScaleFactor) {
+        // Only the pixel ratio changes, so the layout and the box stay the same
+        await page.setViewport({ ...viewport, deviceScaleFactor })
+    }
+
+    const boundingBox = await element.boundingBox()
+    assert(boundingBox, 'Bounding box must be obtained after setting the viewport')
+
+    const clip = {
+        x: boundingBox.x,
+        y: boundingBox.y,
+        width: boundingBox.width,
+        height: boundingBox.height
+    }
+
+    return {
+        clip,
+        deviceScaleFactor,
+        size: {
+            width: Math.round(clip.width * deviceScaleFactor),
+            height: Math.round(clip.height * deviceScaleFactor)
+        }
+    }
+}
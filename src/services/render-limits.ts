@@ -0,0 +1,65 @@
+import assert from 'assert'
+import { Viewport } from '../types.js'
+import { config } from '../config.js'
+
+/**
+ * Per-request overrides of the server's render limits.
+ */
+export interface RenderLimitOptions {
+    timeoutMs?: number
+    padding?: number
+    viewport?: Viewport
+}
+
+export interface ResolvedRenderLimits {
+    timeoutMs: number
+    padding: number
+    viewport: Viewport
+}
+
+export function getDefaultViewport(): Viewport {
+    return { width: config.limits.viewportWidth, height: config.limits.viewportHeight }
+}
+
+/**
+ * Fills in the server defaults and rejects overrides above the server's
+ * maximums.
+ */
+export function resolveRenderLimits(options: RenderLimitOptions): ResolvedRenderLimits {
+    const { limits } = config
+    const { timeoutMs = limits.renderTimeoutMs, padding = limits.padding, viewport = getDefaultViewport() } = options
+
+    assert(timeoutMs > 0, `Timeout must be positive, got: ${timeoutMs}`)
+    assert(timeoutMs <= limits.maxRenderTimeoutMs, `Timeout must be at most ${limits.maxRenderTimeoutMs}ms, got: ${timeoutMs}`)
+    assert(padding >= 0, `Padding must not be negative, got: ${padding}`)
+    assert(padding <= limits.maxPadding, `Padding must be at most ${limits.maxPadding}px, got: ${padding}`)
+    assert(viewport.width > 0 && viewport.height > 0, `Viewport must be positive, got: ${viewport.width}x${viewport.height}`)
+    assert(
+        viewport.width <= limits.maxViewportWidth && viewport.height <= limits.maxViewportHeight,
+        `Viewport must be at most ${limits.maxViewportWidth}x${limits.maxViewportHeight}, got: ${viewport.width}x${viewport.height}`
+    )
+
+    return { timeoutMs, padding, viewport }
+}
+
+export function assertCodeLength(code: string, label: string) {
+    assert(
+        code.length <= config.limits.maxCodeLength,
+        `${label} must be at most ${config.limits.maxCodeLength} characters, got: ${code.length}`
+    )
+}
+
+export function assertOutputSize(bytes: number) {
+    assert(
+        bytes <= config.limits.maxOutputBytes,
+        `Output must be at most ${config.limits.maxOutputBytes} bytes, got: ${bytes}`
+    )
+}
+
+export function assertPixelArea(width: number, height: number) {
+    const area = Math.round(width) * Math.round(height)
+    assert(
+        area <= config.limits.maxPixelArea,
+        `Image must be at most ${config.limits.maxPixelArea} pixels, got: ${Math.round(width)}x${Math.round(height)}`
+    )
+}
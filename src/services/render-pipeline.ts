@@ -0,0 +1,174 @@
+import { Page, ScreenshotOptions } from 'puppeteer'
+import assert from 'assert'
+import { DiagramResult, Format, FormatEnum, PdfOptions } from '../types.js'
+import { AssetLibrary } from './asset-manager.js'
+import { browserPool } from './browser-pool.js'
+import { exportPdf } from './pdf-export.js'
+import { prepareRasterCapture } from './raster-sizing.js'
+import { encodeImage, getDefaultQuality, getScreenshotType, requiresEncoding } from './image-encoder.js'
+import { assertOutputSize, RenderLimitOptions, resolveRenderLimits } from './render-limits.js'
+import { RenderContext, reportStage } from '../utils/render-context.js'
+
+/**
+ * Options of the capture/export stage, shared by every diagram language.
+ */
+export interface CaptureOptions extends RenderLimitOptions {
+    format: Format
+    width?: number
+    height?: number
+    quality?: number
+    scale?: number
+    maxWidth?: number
+    maxHeight?: number
+    lossless?: boolean
+    pdf?: PdfOptions
+}
+
+/**
+ * Adapter for one diagram language. An instance handles a single request:
+ * it fills a pooled page with the diagram, waits until the diagram is drawn
+ * and returns its SVG. Raster and PDF output are produced from the page by
+ * the shared capture stage.
+ */
+export interface Renderer {
+    readonly library: AssetLibrary
+    // Element whose bounding box is captured for raster output
+    readonly captureSelector: string
+    // Element printed for PDF output
+    readonly pdfSelector: string
+    // Whether the page can go back to the pool afterwards
+    readonly reusable: boolean
+
+    buildPage(page: Page): Promise<void>
+    // Returns a failed result for errors in the diagram source, throws for anything else
+    waitForReady(page: Page, timeoutMs: number): Promise<DiagramResult | null>
+    extract(page: Page): Promise<string>
+}
+
+export function validateCaptureOptions(options: CaptureOptions) {
+    assert(FormatEnum.options.includes(options.format), `Invalid format: ${options.format}`)
+
+    if (options.width !== undefined) {
+        assert(options.width > 0, `Width must be positive, got: ${options.width}`)
+    }
+
+    if (options.height !== undefined) {
+        assert(options.height > 0, `Height must be positive, got: ${options.height}`)
+    }
+
+    if (options.quality !== undefined) {
+        assert(options.quality >= 1 && options.quality <= 100, `Quality must be between 1 and 100, got: ${options.quality}`)
+    }
+
+    if (options.maxWidth !== undefined) {
+        assert(options.maxWidth > 0, `Max width must be positive, got: ${options.maxWidth}`)
+    }
+
+    if (options.maxHeight !== undefined) {
+        assert(options.maxHeight > 0, `Max height must be positive, got: ${options.maxHeight}`)
+    }
+
+    resolveRenderLimits(options)
+}
+
+async function capture(page: Page, renderer: Renderer, options: CaptureOptions): Promise<DiagramResult> {
+    const { format, width, height, quality, scale, maxWidth, maxHeight, lossless, pdf } = options
+
+    const element = await page.$(renderer.captureSelector)
+    assert(element, `Capture element must be found: ${renderer.captureSelector}`)
+
+    const boundingBox = await element.boundingBox()
+    assert(boundingBox, 'Capture bounding box must be obtained')
+    assert(boundingBox.width > 0, 'Bounding box width must be positive')
+    assert(boundingBox.height > 0, 'Bounding box height must be positive')
+
+    let buffer: Uint8Array
+    let size = {
+        width: width || boundingBox.width,
+        height: height || boundingBox.height
+    }
+
+    if (format === 'pdf') {
+        buffer = await exportPdf(page, renderer.pdfSelector, pdf)
+    } else {
+        const raster = await prepareRasterCapture(page, element, { width, height, scale, maxWidth, maxHeight })
+        const type = getScreenshotType(format, lossless)
+        const screenshotOptions: ScreenshotOptions = {
+            type,
+            quality: type !== 'png' ? (quality ?? getDefaultQuality(format)) : undefined,
+            fullPage: false,
+            clip: raster.clip
+        }
+
+        buffer = await page.screenshot(screenshotOptions)
+        if (requiresEncoding(format, lossless)) {
+            buffer = await encodeImage(buffer, format, { quality, lossless })
+        }
+        size = raster.size
+    }
+
+    assert(buffer, 'Buffer must be generated')
+    assert(buffer.length > 0, 'Buffer must not be empty')
+    assertOutputSize(buffer.length)
+
+    return {
+        success: true,
+        data: Buffer.from(buffer).toString('base64'),
+        format,
+        size
+    }
+}
+
+/**
+ * Runs a renderer on a pooled page and produces the requested format. Errors
+ * are returned as a failed result rather than thrown. Progress is reported
+ * through `context` after each stage, and aborting its signal closes the page.
+ */
+export async function renderWith(renderer: Renderer, options: CaptureOptions, context: RenderContext = {}): Promise<DiagramResult> {
+    try {
+        validateCaptureOptions(options)
+        const limits = resolveRenderLimits(options)
+
+        return await browserPool.withPage(renderer.library, async (page) => {
+            reportStage(context, 'browser_ready')
+            // Set on every render, a warm page may predate a reload of the
+            // limits. The pool resets both when the page goes back.
+            await page.setViewport(limits.viewport)
+            await page.evaluate((padding) => {
+                document.body.style.padding = `${padding}px`
+            }, limits.padding)
+            await renderer.buildPage(page)
+            reportStage(context, 'library_loaded')
+
+            const failure = await renderer.waitForReady(page, limits.timeoutMs)
+            if (failure) {
+                return failure
+            }
+            reportStage(context, 'rendered')
+
+            if (options.format === 'svg') {
+                const svgContent = await renderer.extract(page)
+                assert(svgContent, 'SVG content must be generated')
+                assertOutputSize(Buffer.byteLength(svgContent))
+                reportStage(context, 'exported')
+                return {
+                    success: true,
+                    data: svgContent,
+                    format: 'svg'
+                }
+            }
+
+            const result = await capture(page, renderer, options)
+            reportStage(context, 'exported')
+            return result
+        }, { reusable: renderer.reusable, signal: context.signal })
+    } catch (error) {
+        assert(error, 'Error must be provided')
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+        return {
+            success: false,
+            error: errorMessage,
+            format: options.format
+        }
+    }
+}
@@ -0,0 +1,162 @@
+import { Page } from 'puppeteer'
+import assert from 'assert'
+import { DiagramResult, RenderDiagramRequest } from '../../types.js'
+import { Renderer } from '../render-pipeline.js'
+import { ResolvedTheme, ThemeManager } from '../theme-manager.js'
+import { parseMermaidError, RawParseError } from '../../utils/syntax-errors.js'
+import { sanitizeMermaidConfig } from '../../utils/mermaid-config.js'
+import { sanitizeCssColor } from '../../utils/html-utils.js'
+import { withTimeout } from '../../utils/timeout.js'
+import { config, MermaidSecurityLevel } from '../../config.js'
+
+interface MermaidPageResult {
+    hasDiagram: boolean
+    hasError: boolean
+    errorText: string | null
+    parseError?: RawParseError
+}
+
+const SECURITY_LEVEL_ORDER: MermaidSecurityLevel[] = ['loose', 'antiscript', 'strict']
+
+/**
+ * A request may ask for a stricter security level than the server's, never a
+ * looser one.
+ */
+function resolveSecurityLevel(requested?: MermaidSecurityLevel): MermaidSecurityLevel {
+    if (!requested) {
+        return config.mermaidSecurityLevel
+    }
+
+    return SECURITY_LEVEL_ORDER.indexOf(requested) > SECURITY_LEVEL_ORDER.indexOf(config.mermaidSecurityLevel)
+        ? requested
+        : config.mermaidSecurityLevel
+}
+
+export class MermaidRenderer implements Renderer {
+    readonly library = 'mermaid'
+    readonly captureSelector = '.diagram'
+    readonly pdfSelector = '.mermaid svg'
+    readonly reusable = true
+
+    constructor(
+        private readonly request: RenderDiagramRequest,
+        private readonly theme: ResolvedTheme
+    ) { }
+
+    private buildConfig() {
+        const { securityLevel, fontSize, darkMode, htmlLabels, maxTextSize, flowchart, sequence } = this.request
+        const diagramConfig = sanitizeMermaidConfig(this.request.mermaidConfig).config
+
+        // The dedicated options win over the same settings in mermaidConfig
+        return {
+            ...diagramConfig,
+            theme: this.theme.theme,
+            themeVariables: this.theme.themeVariables,
+            themeCSS: this.theme.themeCSS,
+            startOnLoad: false,
+            securityLevel: resolveSecurityLevel(securityLevel),
+            fontFamily: this.theme.fontFamily || 'Arial, sans-serif',
+            fontSize: fontSize,
+            darkMode: darkMode,
+            htmlLabels: htmlLabels,
+            // Mermaid's own limit is lower than the server's code length limit
+            maxTextSize: maxTextSize ?? config.limits.maxCodeLength,
+            flowchart: { ...(diagramConfig.flowchart as object), ...flowchart },
+            sequence: { ...(diagramConfig.sequence as object), ...sequence }
+        }
+    }
+
+    async buildPage(page: Page) {
+        const background = sanitizeCssColor(this.request.backgroundColor || '#ffffff')
+
+        await page.evaluate(async (code, background, fontFaceCss, fontFamilies) => {
+            document.body.style.background = background
+            document.getElementById('render-style')!.textContent =
+                '.diagram { display: flex; justify-content: center; align-items: center; }\n' + fontFaceCss
+
+            // Text is measured during layout, so custom fonts must be ready first
+            await Promise.all(fontFamilies.map(family => document.fonts.load(`16px "${family}"`)))
+
+            const container = document.createElement('div')
+            container.className = 'diagram'
+            const target = document.createElement('div')
+            target.className = 'mermaid'
+            target.textContent = code
+            container.appendChild(target)
+            document.body.appendChild(container)
+        }, this.request.mermaidCode, background, this.theme.fontFaceCss, this.theme.fontFamilies)
+    }
+
+    async waitForReady(page: Page, timeoutMs: number): Promise<DiagramResult | null> {
+        // A timed out page is closed by the pool, which ends the evaluation
+        const result = await withTimeout(page.evaluate(async (code, renderConfig) => {
+            const mermaid = (window as any).mermaid
+            mermaid.initialize(renderConfig)
+
+            try {
+                await mermaid.parse(code)
+            } catch (error: any) {
+                const message = error?.message ?? String(error)
+                const hash = error?.hash
+                return {
+                    hasDiagram: false,
+                    hasError: true,
+                    errorText: message,
+                    parseError: {
+                        message,
+                        hash: hash && {
+                            text: hash.text,
+                            token: hash.token,
+                            line: hash.line,
+                            loc: hash.loc,
+                            expected: hash.expected
+                        }
+                    }
+                }
+            }
+
+            try {
+                await mermaid.run({ nodes: [document.querySelector('.mermaid')] })
+            } catch (error) {
+                return {
+                    hasDiagram: false,
+                    hasError: true,
+                    errorText: error instanceof Error ? error.message : String(error)
+                }
+            }
+
+            return {
+                hasDiagram: document.querySelector('.mermaid svg') !== null,
+                hasError: false,
+                errorText: null
+            }
+        }, this.request.mermaidCode, this.buildConfig()), timeoutMs, `Mermaid did not finish rendering within ${timeoutMs}ms`) as MermaidPageResult
+        assert(result, 'Render result must be returned')
+        assert(typeof result.hasDiagram === 'boolean', 'hasDiagram must be boolean')
+        assert(typeof result.hasError === 'boolean', 'hasError must be boolean')
+
+        if (result.parseError) {
+            const syntaxError = parseMermaidError(result.parseError, this.request.mermaidCode)
+            return {
+                success: false,
+                error: `Mermaid syntax error: ${syntaxError.message}`,
+                format: this.request.format,
+                syntaxError
+            }
+        }
+
+        if (result.hasError) {
+            assert(result.errorText, 'Error text must be provided when hasError is true')
+            throw new Error(`Mermaid syntax error: ${result.errorText || 'Unknown syntax error'}`)
+        }
+
+        return null
+    }
+
+    async extract(page: Page): Promise<string> {
+        const svgElement = await page.$('.mermaid svg')
+        assert(svgElement, 'SVG element must be found for SVG format')
+        const svgContent = await page.evaluate((element) => element.outerHTML, svgElement)
+        return ThemeManager.embedFontFaces(svgContent, this.theme.fontFaceCss)
+    }
+}
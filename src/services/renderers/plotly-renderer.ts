@@ -0,0 +1,103 @@
+import { Page } from 'puppeteer'
+import assert from 'assert'
+import { DiagramResult, RenderPlotlyRequest } from '../../types.js'
+import { Renderer } from '../render-pipeline.js'
+import { runPlotlyCode } from '../plotly-sandbox.js'
+import { sanitizeCssColor } from '../../utils/html-utils.js'
+
+export class PlotlyRenderer implements Renderer {
+    readonly library = 'plotly'
+    readonly captureSelector = '.chart-container'
+    readonly pdfSelector = '.chart-container'
+    // A figure is plain data, but user code may leave globals behind, so
+    // only figure renders give their page back to the pool
+    readonly reusable: boolean
+
+    constructor(private readonly request: RenderPlotlyRequest) {
+        this.reusable = request.figure !== undefined
+    }
+
+    async buildPage(page: Page) {
+        const { figure, plotlyCode, backgroundColor, width, height, responsive, displayModeBar, modeBarButtonsToRemove, displaylogo } = this.request
+
+        await page.evaluate((background, containerWidth, containerHeight) => {
+            document.body.style.background = background
+            document.body.style.fontFamily = 'Arial, sans-serif'
+            document.getElementById('render-style')!.textContent = `
+                .chart-container {
+                  display: flex;
+                  justify-content: center;
+                  align-items: center;
+                  width: ${containerWidth};
+                  height: ${containerHeight};
+                }
+                #plotly-chart {
+                  width: 100%;
+                  height: 100%;
+                }
+            `
+
+            const container = document.createElement('div')
+            container.className = 'chart-container'
+            const chart = document.createElement('div')
+            chart.id = 'plotly-chart'
+            container.appendChild(chart)
+            document.body.appendChild(container)
+        }, sanitizeCssColor(backgroundColor || '#ffffff'), width ? `${width}px` : 'auto', height ? `${height}px` : 'auto')
+
+        const plotlyConfig = {
+            responsive: responsive !== undefined ? responsive : true,
+            displayModeBar: displayModeBar !== undefined ? displayModeBar : false,
+            modeBarButtonsToRemove: modeBarButtonsToRemove || [],
+            displaylogo: displaylogo !== undefined ? displaylogo : false
+        }
+
+        if (figure) {
+            await page.evaluate(async (figure, plotlyConfig) => {
+                const Plotly = (window as any).Plotly
+                await Plotly.newPlot('plotly-chart', {
+                    data: figure.data,
+                    layout: figure.layout || {},
+                    config: { ...plotlyConfig, ...(figure.config || {}) },
+                    frames: figure.frames
+                })
+            }, figure, plotlyConfig)
+        } else {
+            await runPlotlyCode(page, plotlyCode!, plotlyConfig)
+        }
+    }
+
+    async waitForReady(page: Page, timeoutMs: number): Promise<DiagramResult | null> {
+        // Uncaught errors end up in .error-text, see the shell in browser-pool.ts
+        const renderResult = await page.waitForFunction(() => {
+            const chart = document.querySelector('#plotly-chart .plotly')
+            const errorElement = document.querySelector('.error-text')
+            if (!chart && !errorElement) {
+                return null
+            }
+            return {
+                hasChart: chart !== null,
+                hasError: errorElement !== null,
+                errorText: errorElement ? errorElement.textContent : null
+            }
+        }, { timeout: timeoutMs })
+
+        const result = await renderResult.jsonValue() as { hasChart: boolean; hasError: boolean; errorText: string | null }
+        assert(result, 'Render result must be returned')
+        assert(typeof result.hasChart === 'boolean', 'hasChart must be boolean')
+        assert(typeof result.hasError === 'boolean', 'hasError must be boolean')
+
+        if (result.hasError) {
+            assert(result.errorText, 'Error text must be provided when hasError is true')
+            throw new Error(`Plotly syntax error: ${result.errorText || 'Unknown syntax error'}`)
+        }
+
+        return null
+    }
+
+    async extract(page: Page): Promise<string> {
+        const svgElement = await page.$('#plotly-chart svg')
+        assert(svgElement, 'SVG element must be found for SVG format')
+        return page.evaluate((element) => element.outerHTML, svgElement)
+    }
+}
@@ -0,0 +1,48 @@
+import { Page } from 'puppeteer'
+import assert from 'assert'
+import { DiagramResult } from '../../types.js'
+import { Renderer } from '../render-pipeline.js'
+import { sanitizeCssColor } from '../../utils/html-utils.js'
+
+/**
+ * For engines that produce the SVG outside the browser, such as Graphviz and
+ * PlantUML. The page only has to display the finished SVG, so any pooled page
+ * works for that. The SVG keeps whatever attributes the source gave it, event
+ * handlers included, so the page is closed afterwards rather than reused.
+ */
+export class SvgRenderer implements Renderer {
+    readonly library = 'mermaid'
+    readonly captureSelector = '.diagram'
+    readonly pdfSelector = '.diagram svg'
+    readonly reusable = false
+
+    constructor(
+        private readonly svg: string,
+        private readonly backgroundColor?: string
+    ) { }
+
+    async buildPage(page: Page) {
+        // The XML prolog and doctype are not valid inside an HTML document
+        const markup = this.svg.slice(this.svg.indexOf('<svg'))
+        assert(markup.startsWith('<svg'), 'Rendered output must contain an SVG element')
+
+        await page.evaluate((markup, background) => {
+            document.body.style.background = background
+            document.getElementById('render-style')!.textContent =
+                '.diagram { display: inline-flex; justify-content: center; align-items: center; }'
+
+            const container = document.createElement('div')
+            container.className = 'diagram'
+            container.innerHTML = markup
+            document.body.appendChild(container)
+        }, markup, sanitizeCssColor(this.backgroundColor || '#ffffff'))
+    }
+
+    async waitForReady(): Promise<DiagramResult | null> {
+        return null
+    }
+
+    async extract(): Promise<string> {
+        return this.svg
+    }
+}
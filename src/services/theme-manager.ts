@@ -0,0 +1,197 @@
+import { readFileSync } from 'fs'
+import { readFile, stat } from 'fs/promises'
+import { extname, resolve } from 'path'
+import assert from 'assert'
+import { FontFace, Theme, ThemePreset, ThemePresetsFileSchema } from '../types.js'
+import { FileManager } from '../utils/file-manager.js'
+import { assertSafeCssValue, assertSafeStylesheet } from '../utils/html-utils.js'
+import { config, logger, onConfigReload } from '../config.js'
+
+export interface ThemeRequest {
+    theme: Theme
+    themePreset?: string
+    themeVariables?: Record<string, string | number | boolean>
+    themeCSS?: string
+    fontFamily?: string
+    fonts?: FontFace[]
+}
+
+export interface ResolvedTheme {
+    theme: Theme
+    themeVariables?: Record<string, string | number | boolean>
+    themeCSS?: string
+    fontFamily?: string
+    // @font-face rules for `fonts`, with the font data inlined
+    fontFaceCss: string
+    fontFamilies: string[]
+}
+
+const FONT_FORMATS: Record<string, { mimeType: string, format: string }> = {
+    '.woff2': { mimeType: 'font/woff2', format: 'woff2' },
+    '.woff': { mimeType: 'font/woff', format: 'woff' },
+    '.ttf': { mimeType: 'font/ttf', format: 'truetype' },
+    '.otf': { mimeType: 'font/otf', format: 'opentype' }
+}
+
+const MAX_FONT_BYTES = 5 * 1024 * 1024
+
+let presets: Record<string, ThemePreset> | null = null
+
+// Presets from the config file may change on reload
+onConfigReload(() => {
+    presets = null
+})
+
+async function toFontSource(src: string): Promise<string> {
+    if (src.startsWith('data:')) {
+        assert(/^data:(font|application)\/[\w.+-]+;base64,[A-Za-z0-9+/=]+$/.test(src), 'Font data URI must be a base64 font')
+        return `url("${src}")`
+    }
+
+    const fontPath = resolve(src)
+    const fontFormat = FONT_FORMATS[extname(fontPath).toLowerCase()]
+    assert(fontFormat, `Unsupported font file: ${src}, expected one of ${Object.keys(FONT_FORMATS).join(', ')}`)
+
+    // One message for every failure, so a caller cannot probe which paths exist
+    const unavailable = new Error(`Font file ${src} is not a readable font in the allowed directories`)
+    if (!FileManager.validateAllowedPath(fontPath)) {
+        logger.debug({ fontPath }, 'Font file is outside the allowed directories')
+        throw unavailable
+    }
+
+    let content: Buffer
+    try {
+        const stats = await stat(fontPath)
+        assert(stats.isFile() && stats.size <= MAX_FONT_BYTES, `Font file ${fontPath} is not a file of at most ${MAX_FONT_BYTES} bytes`)
+        content = await readFile(fontPath)
+    } catch (error) {
+        logger.debug({ fontPath, error: (error as Error).message }, 'Font file is unavailable')
+        throw unavailable
+    }
+    return `url("data:${fontFormat.mimeType};base64,${content.toString('base64')}") format("${fontFormat.format}")`
+}
+
+/**
+ * Named theme presets from the config file and THEME_PRESETS_FILE, and the
+ * checks that keep theme options from breaking out of the styles they are
+ * placed in.
+ */
+export class ThemeManager {
+    static loadPresets(): Record<string, ThemePreset> {
+        if (presets) {
+            return presets
+        }
+
+        if (!config.themePresetsFile) {
+            presets = config.themePresets
+            return presets
+        }
+
+        const presetsPath = resolve(config.themePresetsFile)
+        let content: unknown
+        try {
+            content = JSON.parse(readFileSync(presetsPath, 'utf-8'))
+        } catch (error) {
+            throw new Error(`Theme presets file ${presetsPath} is unreadable: ${(error as Error).message}`)
+        }
+
+        const parsed = ThemePresetsFileSchema.safeParse(content)
+        if (!parsed.success) {
+            const issue = parsed.error.issues[0]
+            throw new Error(`Theme presets file ${presetsPath} is invalid at ${issue.path.join('.')}: ${issue.message}`)
+        }
+
+        // The presets file wins over presets of the same name in the config file
+        presets = { ...config.themePresets, ...parsed.data }
+        logger.info({ path: presetsPath, presets: Object.keys(presets) }, 'Theme presets loaded')
+        return presets
+    }
+
+    static getPreset(name: string): ThemePreset {
+        const loaded = this.loadPresets()
+        const preset = loaded[name]
+        if (!preset) {
+            const available = Object.keys(loaded)
+            throw new Error(`Unknown theme preset: ${name}. Available presets: ${available.length > 0 ? available.join(', ') : 'none'}`)
+        }
+        return preset
+    }
+
+    static listPresets(): string[] {
+        return Object.keys(this.loadPresets())
+    }
+
+    static async buildFontFaceCss(fonts: FontFace[]): Promise<string> {
+        const rules: string[] = []
+
+        for (const font of fonts) {
+            assertSafeCssValue(font.family, 'Font family')
+            assert(!font.family.includes('"'), `Font family must not contain quotes: ${font.family}`)
+            if (font.weight !== undefined) {
+                assertSafeCssValue(String(font.weight), 'Font weight')
+            }
+
+            const declarations = [
+                `font-family: "${font.family}"`,
+                `src: ${await toFontSource(font.src)}`,
+                font.weight !== undefined ? `font-weight: ${font.weight}` : undefined,
+                font.style ? `font-style: ${font.style}` : undefined
+            ].filter(Boolean)
+
+            rules.push(`@font-face { ${declarations.join('; ')}; }`)
+        }
+
+        return rules.join('\n')
+    }
+
+    /**
+     * Merges the requested preset with the theme options of the request and
+     * checks the result. Request options win over the preset, and a `theme`
+     * of 'default' counts as not set.
+     */
+    static async resolveTheme(request: ThemeRequest): Promise<ResolvedTheme> {
+        const preset: ThemePreset = request.themePreset ? this.getPreset(request.themePreset) : {}
+
+        const themeVariables = preset.themeVariables || request.themeVariables
+            ? { ...preset.themeVariables, ...request.themeVariables }
+            : undefined
+        for (const [name, value] of Object.entries(themeVariables || {})) {
+            if (typeof value === 'string') {
+                assertSafeCssValue(value, `Theme variable ${name}`)
+            }
+        }
+
+        const themeCSS = [preset.themeCSS, request.themeCSS].filter(Boolean).join('\n') || undefined
+        if (themeCSS) {
+            assertSafeStylesheet(themeCSS, 'themeCSS')
+        }
+
+        const fontFamily = request.fontFamily ?? preset.fontFamily
+        if (fontFamily !== undefined) {
+            assertSafeCssValue(fontFamily, 'Font family')
+        }
+
+        const fonts = [...(preset.fonts || []), ...(request.fonts || [])]
+
+        return {
+            theme: request.theme !== 'default' ? request.theme : (preset.theme ?? 'default'),
+            themeVariables,
+            themeCSS,
+            fontFamily,
+            fontFaceCss: await this.buildFontFaceCss(fonts),
+            fontFamilies: [...new Set(fonts.map(font => font.family))]
+        }
+    }
+
+    /**
+     * Puts the @font-face rules into the SVG itself, so the fonts still apply
+     * when the SVG is viewed elsewhere.
+     */
+    static embedFontFaces(svg: string, fontFaceCss: string): string {
+        if (!fontFaceCss) {
+            return svg
+        }
+
+        return svg.replace(/^(<svg\b[^>]*>)/, `$1<style>${fontFaceCss}</style>`)
+    }
+}
@@ -0,0 +1,209 @@
+import assert from 'assert'
+import {
+    BatchItemResult,
+    BatchJob,
+    BatchResult,
+    DiagramResult,
+    RenderBatchRequest,
+    RenderBatchRequestSchema
+} from '../types.js'
+import { renderMermaidTool } from './render-diagram.js'
+import { renderPlotlyTool } from './render-plotly.js'
+import { BundleItem, createPdfBundle, createZipBundle } from '../services/batch-bundler.js'
+import { handleRenderOutput } from '../utils/render-utils.js'
+import { RenderStore } from '../utils/render-store.js'
+import { RenderContext } from '../utils/render-context.js'
+import { config, logger } from '../config.js'
+
+const PDF_BUNDLE_FORMATS = ['pdf', 'png', 'jpg', 'jpeg']
+
+function getJobFormat(job: Record<string, unknown>): unknown {
+    const tool = job.type === 'plotly' ? 'render_plotly' : 'render_mermaid'
+    return job.format ?? config.toolDefaults[tool]?.format ?? 'svg'
+}
+
+/**
+ * Renders a render_batch call can run, counted from its raw arguments for the
+ * render quota: one per job, and one more for each job a PDF bundle renders
+ * again as PDF.
+ */
+export function countBatchRenders(args: { jobs?: unknown, bundle?: unknown } = {}): number {
+    if (!Array.isArray(args.jobs)) {
+        return 1
+    }
+    if (args.bundle !== 'pdf') {
+        return args.jobs.length
+    }
+
+    const conversions = args.jobs.filter(job => !PDF_BUNDLE_FORMATS.includes(String(getJobFormat(job ?? {})))).length
+    return args.jobs.length + conversions
+}
+
+/**
+ * Jobs share the batch's abort signal and client, but not its progress
+ * callback: the batch reports one step per finished job instead of render
+ * stages.
+ */
+function renderJob(job: BatchJob, context: RenderContext): Promise<DiagramResult> {
+    const { type, id, ...request } = job
+    const jobContext = { signal: context.signal, clientId: context.clientId }
+    return type === 'mermaid'
+        ? renderMermaidTool.execute(request as Parameters<typeof renderMermaidTool.execute>[0], jobContext)
+        : renderPlotlyTool.execute(request as Parameters<typeof renderPlotlyTool.execute>[0], jobContext)
+}
+
+/**
+ * Runs `task` for every item with at most `limit` running at once and keeps
+ * the results in input order.
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length)
+    let next = 0
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++
+            results[index] = await task(items[index], index)
+        }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+    return results
+}
+
+function getBundleName(item: BatchItemResult): string {
+    const label = (item.id || item.type).replace(/[^A-Za-z0-9_-]+/g, '-')
+    return `${String(item.index + 1).padStart(2, '0')}-${label}`
+}
+
+async function readRenderContent(result: DiagramResult): Promise<Buffer> {
+    assert(result.resource_uri, 'Render must be stored to be bundled')
+    return RenderStore.readContent(result.resource_uri.slice(RenderStore.URI_SCHEME.length))
+}
+
+async function collectBundleItems(request: RenderBatchRequest, results: BatchItemResult[], context: RenderContext): Promise<BundleItem[]> {
+    const items: BundleItem[] = []
+
+    for (const result of results) {
+        if (!result.success) {
+            continue
+        }
+
+        const name = getBundleName(result)
+        if (request.bundle !== 'pdf' || PDF_BUNDLE_FORMATS.includes(result.format)) {
+            items.push({ name, format: result.format, content: await readRenderContent(result) })
+            continue
+        }
+
+        // SVG, WebP and AVIF cannot be embedded as they are, so the job is rendered again as PDF
+        const job = request.jobs[result.index]
+        const pdfResult = await renderJob({ ...job, format: 'pdf', output: 'link', filePath: undefined }, context)
+        if (!pdfResult.success) {
+            throw new Error(`Failed to convert job ${result.index + 1} to PDF: ${pdfResult.error}`)
+        }
+        items.push({ name, format: 'pdf', content: await readRenderContent(pdfResult) })
+    }
+
+    return items
+}
+
+export const renderBatchTool = {
+    name: 'render_batch',
+    description: `Render several Mermaid diagrams and Plotly charts in one call.
+Each job takes the same options as render_mermaid or render_plotly plus:
+- "type": "mermaid" or "plotly"
+- "id" (optional): your label for the job, echoed back in its result
+
+Jobs run concurrently (concurrency, default: the server's render limit). A failing job does not stop the others: results holds one entry per job, in job order, with its index, id and the same fields render_mermaid/render_plotly return.
+
+Bundles:
+- bundle="zip": all successful renders in one zip archive
+- bundle="pdf": one PDF with a page per successful render. PDF, PNG and JPG renders are used as they are; other formats are rendered again as PDF
+- bundleOutput: "link" (default), "filepath" or "raw" (base64) for the bundle; bundleFilePath writes it to that path (same rules as filePath)
+
+Example:
+{
+  "jobs": [
+    { "type": "mermaid", "id": "flow", "mermaidCode": "graph TD; A-->B", "format": "png" },
+    { "type": "plotly", "id": "growth", "figure": { "data": [{ "x": [1, 2, 3], "y": [1, 4, 9] }] }, "format": "png" }
+  ],
+  "bundle": "pdf"
+}`,
+    inputSchema: RenderBatchRequestSchema,
+    execute: async (params: RenderBatchRequest, context: RenderContext = {}): Promise<BatchResult> => {
+        assert(params, 'Parameters are required')
+        assert(params.jobs && params.jobs.length > 0, 'At least one job is required')
+
+        const concurrency = params.concurrency ?? config.maxConcurrentRenders
+        assert(concurrency > 0, `Concurrency must be positive, got: ${concurrency}`)
+
+        // Bundling counts as one more step
+        const totalSteps = params.jobs.length + (params.bundle && params.bundle !== 'none' ? 1 : 0)
+        let finishedJobs = 0
+
+        const results = await mapWithConcurrency(params.jobs, concurrency, async (job, index): Promise<BatchItemResult> => {
+            try {
+                const result = await renderJob(job, context)
+                return { ...result, index, id: job.id, type: job.type }
+            } catch (error) {
+                return {
+                    success: false,
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                    format: job.format,
+                    index,
+                    id: job.id,
+                    type: job.type
+                }
+            } finally {
+                finishedJobs++
+                context.onProgress?.(finishedJobs, totalSteps, `Job ${index + 1} of ${params.jobs.length} finished`)
+            }
+        })
+
+        const succeeded = results.filter(result => result.success).length
+        const batchResult: BatchResult = {
+            success: succeeded === results.length,
+            succeeded,
+            failed: results.length - succeeded,
+            results
+        }
+
+        logger.info({ jobs: results.length, succeeded, bundle: params.bundle }, 'Batch rendered')
+
+        const bundle = params.bundle || 'none'
+        if (bundle === 'none') {
+            return batchResult
+        }
+
+        try {
+            const items = await collectBundleItems(params, results, context)
+            assert(items.length > 0, 'No job rendered successfully, nothing to bundle')
+
+            const content = bundle === 'zip' ? await createZipBundle(items) : await createPdfBundle(items)
+            batchResult.bundle = await handleRenderOutput({
+                data: content.toString('base64'),
+                format: bundle,
+                output: params.bundleOutput,
+                tool: 'render_batch',
+                source: JSON.stringify(params.jobs),
+                options: { bundle },
+                clientId: context.clientId,
+                destination: params.bundleFilePath
+                    ? { filePath: params.bundleFilePath, createDirs: params.createDirs, overwrite: params.overwrite }
+                    : undefined
+            })
+            context.onProgress?.(totalSteps, totalSteps, `${bundle} bundle saved`)
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+            logger.info({ error: errorMessage, bundle }, 'Batch bundle failed')
+            batchResult.success = false
+            batchResult.bundle = {
+                success: false,
+                error: `Failed to create ${bundle} bundle: ${errorMessage}`,
+                format: bundle
+            }
+        }
+
+        return batchResult
+    }
+}
@@ -0,0 +1,32 @@
+import { RenderGraphvizRequestSchema } from '../types.js'
+import { GraphvizService } from '../services/graphviz-service.js'
+import { createRenderTool, OUTPUT_OPTIONS_DESCRIPTION } from './render-tool.js'
+
+const graphvizService = new GraphvizService()
+
+export const renderGraphvizTool = createRenderTool({
+    name: 'render_graphviz',
+    subject: 'Graphviz graph',
+    description: `Render a Graphviz DOT graph to SVG, PNG, JPG, WebP, AVIF, or PDF format.
+${OUTPUT_OPTIONS_DESCRIPTION}
+
+Layout engines (engine):
+- "dot" (default): hierarchical layout for directed graphs
+- "neato", "fdp": spring model layouts for undirected graphs
+- "circo": circular layout
+- "twopi": radial layout
+
+Examples:
+- Basic SVG: Just provide dotCode, e.g. digraph { a -> b }
+- Localhost image: Set format='png' with output='link' (default) to get a localhost URL
+- WebP/AVIF: set format='webp' or 'avif' for smaller images; quality applies to JPG, WebP and AVIF, lossless=true for lossless WebP/AVIF
+- High-DPI images: set scale (device pixel ratio, e.g. 2) for PNG, JPG, WebP and AVIF; maxWidth/maxHeight fit the image within those pixel bounds
+- PDF: pages are cropped to the diagram by default; use pdf.paperSize, pdf.landscape, pdf.margin, pdf.scale, or pdf.vector=false
+- Repeated renders: identical code and options return the stored result (cache: "hit"); set cache=false to force a fresh render
+- Large diagrams: timeoutMs, padding and viewport ({ width, height }) override the server defaults up to the server's maximums
+
+Invalid DOT returns success=false with "syntaxError" holding the line, the token Graphviz stopped at and a snippet of the source.`,
+    inputSchema: RenderGraphvizRequestSchema,
+    split: ({ dotCode, ...options }) => ({ source: dotCode, options }),
+    render: (params, context) => graphvizService.renderGraphviz(params, context)
+})
@@ -0,0 +1,187 @@
+import assert from 'assert'
+import {
+    DiagramResult,
+    MarkdownArtifact,
+    MarkdownResult,
+    PlotlyFigureSchema,
+    RenderMarkdownRequest,
+    RenderMarkdownRequestSchema
+} from '../types.js'
+import { renderMermaidTool } from './render-diagram.js'
+import { renderPlotlyTool } from './render-plotly.js'
+import { MarkdownService } from '../services/markdown-service.js'
+import { CodeFence, extractFences, replaceFences } from '../utils/markdown-fences.js'
+import { handleRenderOutput } from '../utils/render-utils.js'
+import { getMimeType } from '../utils/mime-types.js'
+import { RenderContext } from '../utils/render-context.js'
+import { config, logger } from '../config.js'
+
+const markdownService = new MarkdownService()
+
+/**
+ * Languages of the fences render_markdown renders.
+ */
+export function getFenceLanguages(plotly?: boolean): string[] {
+    return plotly ? ['mermaid', 'plotly'] : ['mermaid']
+}
+
+/**
+ * Renders a render_markdown call can run, counted from its raw arguments for
+ * the render quota: one per fence and at least one, plus the document for
+ * "pdf", which is printed in the browser as well.
+ */
+export function countMarkdownRenders(args: { markdown?: unknown, plotly?: unknown, documentFormat?: unknown } = {}): number {
+    const defaults = config.toolDefaults.render_markdown
+    const { markdown, plotly = defaults?.plotly, documentFormat = defaults?.documentFormat } = args
+    const fences = typeof markdown === 'string' ? extractFences(markdown, getFenceLanguages(plotly === true)).length : 0
+    return Math.max(fences, 1) + (documentFormat === 'pdf' ? 1 : 0)
+}
+
+function getLineNumber(markdown: string, offset: number): number {
+    return markdown.slice(0, offset).split('\n').length
+}
+
+async function renderFence(fence: CodeFence, params: RenderMarkdownRequest, inline: boolean, context: RenderContext): Promise<DiagramResult> {
+    const fenceContext = { signal: context.signal, clientId: context.clientId }
+    const common = {
+        format: params.format,
+        backgroundColor: params.backgroundColor,
+        cache: params.cache,
+        output: inline ? 'raw' as const : 'link' as const
+    }
+
+    if (fence.language === 'mermaid') {
+        return renderMermaidTool.execute({ ...common, mermaidCode: fence.code, theme: params.theme, themePreset: params.themePreset }, fenceContext)
+    }
+
+    let figure: unknown
+    try {
+        figure = JSON.parse(fence.code)
+    } catch (error) {
+        return { success: false, error: `Plotly block is not valid JSON: ${(error as Error).message}`, format: params.format }
+    }
+
+    const parsed = PlotlyFigureSchema.safeParse(figure)
+    if (!parsed.success) {
+        return { success: false, error: `Plotly block is not a valid figure: ${parsed.error.issues[0].message}`, format: params.format }
+    }
+
+    return renderPlotlyTool.execute({ ...common, figure: parsed.data }, fenceContext)
+}
+
+/**
+ * Markdown that shows the render in place of its fence. Inline SVG becomes an
+ * HTML block, so blank lines are dropped to keep it in one block.
+ */
+function toEmbed(result: DiagramResult, label: string, inline: boolean): string {
+    assert(result.data, 'Successful render must have data')
+
+    if (!inline) {
+        return `![${label}](${result.data})`
+    }
+
+    if (result.format === 'svg') {
+        return `<div class="diagram">\n${result.data.replace(/\n\s*\n/g, '\n').trim()}\n</div>`
+    }
+
+    return `![${label}](data:${getMimeType(result.format)};base64,${result.data})`
+}
+
+export const renderMarkdownTool = {
+    name: 'render_markdown',
+    description: `Render every diagram in a Markdown document and return the document with the diagrams embedded.
+Fenced \`\`\`mermaid blocks are rendered with render_mermaid. With plotly=true, \`\`\`plotly blocks holding a figure as JSON ({ "data": [...], "layout": {...} }) are rendered too.
+
+Options:
+- format: image format for the diagrams (svg, png, jpg, webp, avif; default svg)
+- embed: "link" (default) replaces each block with an image link to the render; "inline" embeds the SVG markup or a data: URI
+- theme, themePreset, backgroundColor: applied to every Mermaid diagram
+- documentFormat: "markdown" (default) only returns the rewritten Markdown; "html" or "pdf" also renders the whole document. PDF always embeds diagrams inline, use pdf.paperSize, pdf.landscape and pdf.margin for the page setup
+- documentOutput: "link" (default), "filepath" or "raw" for the HTML/PDF document
+
+The result holds the rewritten "markdown", one entry per diagram in "artifacts" (with its index, language and 1-based line in the source) and "document" when requested. Blocks that fail to render are left unchanged and reported in artifacts.`,
+    inputSchema: RenderMarkdownRequestSchema,
+    execute: async (params: RenderMarkdownRequest, context: RenderContext = {}): Promise<MarkdownResult> => {
+        try {
+            assert(params, 'Parameters are required')
+            assert(params.markdown, 'Markdown is required')
+            assert(params.markdown.trim().length > 0, 'Markdown cannot be empty')
+
+            const documentFormat = params.documentFormat || 'markdown'
+            // A PDF is printed offline, so it cannot load diagrams by URL
+            const inline = params.embed === 'inline' || documentFormat === 'pdf'
+            const fences = extractFences(params.markdown, getFenceLanguages(params.plotly))
+            // The whole document counts as one more step
+            const totalSteps = fences.length + (documentFormat !== 'markdown' ? 1 : 0)
+            let finishedFences = 0
+
+            const artifacts = await Promise.all(fences.map(async (fence, index): Promise<MarkdownArtifact> => {
+                const line = getLineNumber(params.markdown, fence.start)
+                try {
+                    const result = await renderFence(fence, params, inline, context)
+                    return { ...result, index, language: fence.language, line }
+                } catch (error) {
+                    return {
+                        success: false,
+                        error: error instanceof Error ? error.message : 'Unknown error',
+                        format: params.format,
+                        index,
+                        language: fence.language,
+                        line
+                    }
+                } finally {
+                    finishedFences++
+                    context.onProgress?.(finishedFences, totalSteps, `Diagram ${finishedFences} of ${fences.length} rendered`)
+                }
+            }))
+
+            const replacements = artifacts.map((artifact, index) => {
+                if (!artifact.success) {
+                    return params.markdown.slice(fences[index].start, fences[index].end)
+                }
+                const label = `${artifact.language === 'plotly' ? 'Chart' : 'Diagram'} ${index + 1}`
+                return toEmbed(artifact, label, inline)
+            })
+
+            const markdown = replaceFences(params.markdown, fences, replacements)
+            const failed = artifacts.filter(artifact => !artifact.success).length
+            logger.info({ diagrams: artifacts.length, failed, documentFormat }, 'Markdown diagrams rendered')
+
+            const result: MarkdownResult = {
+                success: failed === 0,
+                markdown,
+                // Inline data is already in the markdown, no need to send it twice
+                artifacts: inline ? artifacts.map(({ data, ...artifact }) => artifact) : artifacts
+            }
+
+            if (documentFormat !== 'markdown') {
+                const html = markdownService.toHtml(markdown, params.title)
+                const data = documentFormat === 'pdf'
+                    ? Buffer.from(await markdownService.toPdf(html, params.pdf, context.signal)).toString('base64')
+                    : html
+
+                result.document = await handleRenderOutput({
+                    data,
+                    format: documentFormat,
+                    output: params.documentOutput,
+                    tool: 'render_markdown',
+                    source: params.markdown,
+                    options: { documentFormat, format: params.format, theme: params.theme, themePreset: params.themePreset },
+                    clientId: context.clientId
+                })
+                context.onProgress?.(totalSteps, totalSteps, `${documentFormat} document saved`)
+            }
+
+            return result
+        } catch (error) {
+            assert(error, 'Error must be provided')
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+            logger.info({ error: errorMessage }, 'Markdown rendering failed with exception')
+            return {
+                success: false,
+                error: `Failed to render Markdown: ${errorMessage}`,
+                artifacts: []
+            }
+        }
+    }
+}
@@ -0,0 +1,27 @@
+import { RenderPlantumlRequestSchema } from '../types.js'
+import { PlantumlService } from '../services/plantuml-service.js'
+import { createRenderTool, OUTPUT_OPTIONS_DESCRIPTION } from './render-tool.js'
+
+const plantumlService = new PlantumlService()
+
+export const renderPlantumlTool = createRenderTool({
+    name: 'render_plantuml',
+    subject: 'PlantUML diagram',
+    description: `Render a PlantUML diagram (sequence, component, class, activity, ...) to SVG, PNG, JPG, WebP, AVIF, or PDF format.
+Rendering uses the PlantUML jar or PlantUML server configured on this server; diagrams are never sent to the public plantuml.com server.
+${OUTPUT_OPTIONS_DESCRIPTION}
+
+Examples:
+- Basic SVG: Just provide plantumlCode; @startuml/@enduml are added when missing, e.g. "Alice -> Bob: hello"
+- Localhost image: Set format='png' with output='link' (default) to get a localhost URL
+- WebP/AVIF: set format='webp' or 'avif' for smaller images; quality applies to JPG, WebP and AVIF, lossless=true for lossless WebP/AVIF
+- High-DPI images: set scale (device pixel ratio, e.g. 2) for PNG, JPG, WebP and AVIF; maxWidth/maxHeight fit the image within those pixel bounds
+- PDF: pages are cropped to the diagram by default; use pdf.paperSize, pdf.landscape, pdf.margin, pdf.scale, or pdf.vector=false
+- Repeated renders: identical code and options return the stored result (cache: "hit"); set cache=false to force a fresh render
+- Large diagrams: timeoutMs, padding and viewport ({ width, height }) override the server defaults up to the server's maximums
+
+Invalid PlantUML returns success=false with "syntaxError" holding the line and a snippet of the source when PlantUML reports one.`,
+    inputSchema: RenderPlantumlRequestSchema,
+    split: ({ plantumlCode, ...options }) => ({ source: plantumlCode, options }),
+    render: (params, context) => plantumlService.renderPlantuml(params, context)
+})
@@ -1,27 +1,38 @@
-import { z } from 'zod'
-import assert from 'assert'
 import { RenderPlotlyRequestSchema } from '../types.js'
 import { PlotlyService } from '../services/plotly-service.js'
-import { handleRenderOutput } from '../utils/render-utils.js'
-import { logger } from '../config.js'
+import { createRenderTool, OUTPUT_OPTIONS_DESCRIPTION } from './render-tool.js'
 
 const plotlyService = new PlotlyService()
 
-export const renderPlotlyTool = {
+export const renderPlotlyTool = createRenderTool({
     name: 'render_plotly',
-    description: `Render a Plotly chart to SVG, PNG, JPG, or PDF format with comprehensive styling and output options.
-Output options:
-- "link" (default): Returns a localhost URL for easy viewing
-- "filepath": Saves to disk and returns the file path
-- "raw": Returns base64 data for images or raw SVG string
+    subject: 'Plotly chart',
+    description: `Render a Plotly chart to SVG, PNG, JPG, WebP, AVIF, or PDF format with comprehensive styling and output options.
+${OUTPUT_OPTIONS_DESCRIPTION}
+
+Input: provide exactly one of
+- "figure" (preferred): a declarative figure { data, layout?, config?, frames? } as accepted by Plotly.newPlot. It is plain JSON, no code runs
+- "plotlyCode": JavaScript that calls Plotly.newPlot('plotly-chart', ...). It runs in a sandbox without network access, eval or string timers, and must finish within a time limit. Servers may disable it (PLOTLY_CODE_MODE)
 
 Examples:
-- Basic chart: Provide plotlyCode with Plotly.newPlot() call
-- Localhost image: Set format='png' with output='link' (default) to get a localhost URL  (always show the user the link he can view the diagram in a browser)
+- Basic chart: Provide figure with data traces, or plotlyCode with a Plotly.newPlot() call
+- Localhost image: Set format='png' with output='link' (default) to get a localhost URL
 - Save to disk: Set output='filepath' to save and get file path
 - Base64 image: Set output='raw' to get base64 data for <img> tags
+- Inline image: Set format='png' with output='image' to show the image directly in clients that support it
+- WebP/AVIF: set format='webp' or 'avif' for smaller images; quality applies to JPG, WebP and AVIF, lossless=true for lossless WebP/AVIF
+- High-DPI images: set scale (device pixel ratio, e.g. 2) for PNG, JPG, WebP and AVIF; maxWidth/maxHeight fit the image within those pixel bounds. The result size is the actual pixel size
+- PDF: pages are cropped to the diagram by default; use pdf.paperSize, pdf.landscape, pdf.margin, pdf.scale, or pdf.vector=false to embed a screenshot instead of vector output
+- Repeated renders: identical code and options return the stored result (cache: "hit"); set cache=false to force a fresh render
+- Large diagrams: timeoutMs, padding and viewport ({ width, height }) override the server defaults up to the server's maximums
 - Custom styling: Use backgroundColor, width, height, and plotlyConfig options
 
+Figure Example:
+{
+  "data": [{ "x": [1, 2, 3, 4, 5], "y": [1, 2, 4, 8, 16], "type": "scatter" }],
+  "layout": { "margin": { "t": 0 } }
+}
+
 Plotly Code Example:
 Plotly.newPlot('plotly-chart', [{
   x: [1, 2, 3, 4, 5],
@@ -31,59 +42,6 @@ Plotly.newPlot('plotly-chart', [{
   margin: { t: 0 }
 });`,
     inputSchema: RenderPlotlyRequestSchema,
-    execute: async (params: z.infer<typeof RenderPlotlyRequestSchema> & { quality?: number }) => {
-        try {
-            assert(params, 'Parameters are required')
-            assert(params.plotlyCode, 'Plotly code is required')
-            assert(params.plotlyCode.trim().length > 0, 'Plotly code cannot be empty')
-            assert(['svg', 'png', 'jpg', 'pdf'].includes(params.format), `Invalid format: ${params.format}`)
-
-            if (params.quality !== undefined) {
-                assert(params.quality >= 1 && params.quality <= 100, `Quality must be between 1 and 100, got: ${params.quality}`)
-            }
-
-            if (params.width !== undefined) {
-                assert(params.width > 0, `Width must be positive, got: ${params.width}`)
-            }
-
-            if (params.height !== undefined) {
-                assert(params.height > 0, `Height must be positive, got: ${params.height}`)
-            }
-
-            const result = await plotlyService.renderPlotly(params)
-            assert(result, 'Plotly service returned null result')
-            assert(typeof result.success === 'boolean', 'Result must have success boolean property')
-
-            if (!result.success) {
-                assert(result.error, 'Failed result must have error message')
-                logger.info({ error: result.error, format: result.format }, 'Plotly chart rendering failed')
-                return {
-                    success: false,
-                    error: result.error || 'Failed to render Plotly chart',
-                    format: result.format
-                }
-            }
-
-            assert(result.data, 'Successful result must have data')
-            assert(result.format, 'Result must have format')
-
-            return await handleRenderOutput({
-                data: result.data,
-                format: result.format,
-                output: params.output,
-                width: params.width,
-                height: params.height,
-                size: result.size
-            })
-        } catch (error) {
-            assert(error, 'Error must be provided')
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-            logger.info({ error: errorMessage, format: params.format }, 'Plotly chart rendering failed with exception')
-            return {
-                success: false,
-                error: `Failed to render Plotly chart: ${errorMessage}`,
-                format: params.format
-            }
-        }
-    }
-} 
\ No newline at end of file
+    split: ({ figure, plotlyCode, ...options }) => ({ source: plotlyCode ?? JSON.stringify(figure), options }),
+    render: (params, context) => plotlyService.renderPlotly(params, context)
+})
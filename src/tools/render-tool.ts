@@ -0,0 +1,163 @@
+import { z } from 'zod'
+import assert from 'assert'
+import { DiagramResult, Format, OutputType } from '../types.js'
+import { handleCachedOutput, handleRenderOutput } from '../utils/render-utils.js'
+import { computeCacheKey } from '../utils/render-cache.js'
+import { RenderStore } from '../utils/render-store.js'
+import { FileManager } from '../utils/file-manager.js'
+import { RenderContext, reportStage } from '../utils/render-context.js'
+import { ToolName } from '../config-file.js'
+import { logger } from '../config.js'
+
+/**
+ * Request fields every render tool shares. They choose the output format and
+ * where the result goes, the rest of a request is up to the tool.
+ */
+export interface RenderToolParams {
+    format: Format
+    output?: OutputType
+    width?: number
+    height?: number
+    quality?: number
+    cache?: boolean
+    filePath?: string
+    createDirs?: boolean
+    overwrite?: boolean
+}
+
+/**
+ * Output modes and the filePath rules, shared by the descriptions of every
+ * render tool.
+ */
+export const OUTPUT_OPTIONS_DESCRIPTION = `Output options:
+- "link" (default): Returns a localhost URL for easy viewing (always show the user the link he can view the diagram in a browser)
+- "filepath": Saves to disk and returns the file path (filePath if given, otherwise a file in the temp dir)
+- "raw": Returns base64 data for images or raw SVG string
+- "image": Returns the image as an MCP image content block with its MIME type, plus a JSON summary. SVG and PDF are not images to MCP clients, they come as an embedded resource instead
+
+filePath writes the result to that path for every format and output mode. It must be inside the allowed directories, and is refused when the server has none configured. Set createDirs=true to create missing parent directories and overwrite=true to replace an existing file.`
+
+export type RenderToolInput<S extends z.AnyZodObject> = z.infer<S> & RenderToolParams
+
+/**
+ * One diagram language as a tool. The executor looks up the cache, stores the
+ * result and turns exceptions into failed results; the spec renders through
+ * the language's service, which checks the whole request. Invalid requests
+ * are never stored, so checking them after the cache lookup is enough.
+ */
+export interface RenderToolSpec<S extends z.AnyZodObject> {
+    // Also the key of the tool's defaults in the config file
+    name: ToolName
+    // What gets rendered, for messages: 'Graphviz graph'
+    subject: string
+    description: string
+    inputSchema: S
+    // Splits a request into the diagram source and the options stored with it
+    split(params: RenderToolInput<S>): { source: string, options: Record<string, unknown> }
+    // Options the cache key is computed from, when they differ from the stored ones
+    cacheOptions?(params: RenderToolInput<S>, options: Record<string, unknown>): Record<string, unknown>
+    warnings?(params: RenderToolInput<S>, source: string): string[]
+    render(params: RenderToolInput<S>, context: RenderContext): Promise<DiagramResult>
+}
+
+async function executeRender<S extends z.AnyZodObject>(
+    spec: RenderToolSpec<S>,
+    params: RenderToolInput<S>,
+    context: RenderContext
+): Promise<DiagramResult> {
+    try {
+        assert(params, 'Parameters are required')
+
+        const { source, options } = spec.split(params)
+        const warnings = spec.warnings?.(params, source) ?? []
+        const warningFields = warnings.length > 0 ? { warnings } : {}
+        const useCache = params.cache !== false
+        const destination = params.filePath
+            ? { filePath: params.filePath, createDirs: params.createDirs, overwrite: params.overwrite }
+            : undefined
+        if (destination) {
+            await FileManager.checkDestination(destination, params.format)
+        }
+        const cacheKey = computeCacheKey(spec.name, source, spec.cacheOptions?.(params, options) ?? options, context.clientId)
+
+        if (useCache) {
+            const cached = await RenderStore.findByCacheKey(cacheKey)
+            if (cached) {
+                const output = await handleCachedOutput(cached, params.output, destination)
+                reportStage(context, 'saved')
+                return { ...output, ...warningFields }
+            }
+        }
+
+        const result = await spec.render(params, context)
+        assert(result, `${spec.name} returned null result`)
+        assert(typeof result.success === 'boolean', 'Result must have success boolean property')
+
+        if (!result.success) {
+            assert(result.error, 'Failed result must have error message')
+            logger.info({ tool: spec.name, error: result.error, format: result.format }, 'Rendering failed')
+            return {
+                success: false,
+                error: result.error || `Failed to render ${spec.subject}`,
+                format: result.format,
+                syntaxError: result.syntaxError,
+                ...warningFields
+            }
+        }
+
+        assert(result.data, 'Successful result must have data')
+        assert(result.format, 'Result must have format')
+
+        const output = await handleRenderOutput({
+            data: result.data,
+            format: result.format,
+            output: params.output,
+            width: params.width,
+            height: params.height,
+            size: result.size,
+            tool: spec.name,
+            source,
+            options,
+            cacheKey: useCache ? cacheKey : undefined,
+            clientId: context.clientId,
+            destination
+        })
+        reportStage(context, 'saved')
+
+        return {
+            ...output,
+            cache: useCache ? 'miss' : 'bypass',
+            ...warningFields
+        }
+    } catch (error) {
+        assert(error, 'Error must be provided')
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        logger.info({ tool: spec.name, error: errorMessage, format: params.format }, 'Rendering failed with exception')
+        return {
+            success: false,
+            error: `Failed to render ${spec.subject}: ${errorMessage}`,
+            format: params.format
+        }
+    }
+}
+
+export interface RenderTool<S extends z.AnyZodObject> {
+    name: ToolName
+    description: string
+    inputSchema: S
+    execute(params: RenderToolInput<S>, context?: RenderContext): Promise<DiagramResult>
+}
+
+/**
+ * Builds a render tool from its spec. Every render tool runs through the same
+ * executor, so caching, storage and error handling behave alike.
+ */
+export function createRenderTool<S extends z.AnyZodObject>(spec: RenderToolSpec<S>): RenderTool<S> {
+    return {
+        name: spec.name,
+        description: spec.description,
+        inputSchema: spec.inputSchema,
+        execute: (params: RenderToolInput<S>, context: RenderContext = {}): Promise<DiagramResult> =>
+            executeRender(spec, params, context)
+    }
+}
@@ -0,0 +1,61 @@
+import assert from 'assert'
+import { ValidateMermaidRequest, ValidateMermaidRequestSchema } from '../types.js'
+import { MermaidService } from '../services/mermaid-service.js'
+import { checkEmbeddedConfig, sanitizeMermaidConfig } from '../utils/mermaid-config.js'
+import { RenderContext } from '../utils/render-context.js'
+import { config, logger } from '../config.js'
+
+const mermaidService = new MermaidService()
+
+export const validateMermaidTool = {
+    name: 'validate_mermaid',
+    description: `Check Mermaid diagram syntax without rendering it.
+Returns { valid: true, diagramType } when the code parses. Otherwise returns { valid: false, error } where error holds:
+- "message": the parser message
+- "line" / "column": 1-based position of the problem
+- "expected": tokens the parser expected at that position
+- "token": the token it found instead
+- "snippet": the offending lines with a caret under the column
+
+"warnings" lists unknown or ignored keys in front matter config and %%{init}%% directives.
+
+Use this to fix a diagram before calling render_mermaid.`,
+    inputSchema: ValidateMermaidRequestSchema,
+    execute: async (params: ValidateMermaidRequest, context: RenderContext = {}) => {
+        try {
+            assert(params, 'Parameters are required')
+            assert(params.mermaidCode, 'Mermaid code is required')
+            assert(params.mermaidCode.trim().length > 0, 'Mermaid code cannot be empty')
+
+            // Parsed with render_mermaid's configured defaults, so a diagram that
+            // validates also renders. Their warnings belong to the config file.
+            const defaults = config.toolDefaults.render_mermaid
+            const result = await mermaidService.validateDiagram(params.mermaidCode, {
+                ...sanitizeMermaidConfig(defaults?.mermaidConfig).config,
+                maxTextSize: defaults?.maxTextSize ?? config.limits.maxCodeLength
+            }, context)
+            assert(result, 'Mermaid service returned null result')
+
+            const warnings = checkEmbeddedConfig(params.mermaidCode)
+            if (warnings.length > 0) {
+                result.warnings = warnings
+            }
+
+            if (!result.valid) {
+                logger.info({ error: result.error }, 'Mermaid diagram validation failed')
+            }
+
+            return result
+        } catch (error) {
+            assert(error, 'Error must be provided')
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+            logger.info({ error: errorMessage }, 'Mermaid diagram validation failed with exception')
+            return {
+                valid: false,
+                error: {
+                    message: `Failed to validate Mermaid diagram: ${errorMessage}`
+                }
+            }
+        }
+    }
+}
@@ -1,18 +1,372 @@
 import { z } from 'zod'
 
-const OutputTypeEnum = z.enum(['link', 'filepath', 'raw'])
+const OutputTypeEnum = z.enum(['link', 'filepath', 'raw', 'image'])
+
+export const FormatEnum = z.enum(['svg', 'png', 'jpg', 'webp', 'avif', 'pdf'])
+
+const PdfMarginSchema = z.union([z.number().min(0), z.string()])
+
+export const PdfOptionsSchema = z.object({
+    fitToDiagram: z.boolean().optional(),
+    paperSize: z.enum(['A0', 'A1', 'A2', 'A3', 'A4', 'A5', 'A6', 'Letter', 'Legal', 'Tabloid', 'Ledger']).optional(),
+    landscape: z.boolean().optional(),
+    margin: z.object({
+        top: PdfMarginSchema.optional(),
+        right: PdfMarginSchema.optional(),
+        bottom: PdfMarginSchema.optional(),
+        left: PdfMarginSchema.optional(),
+    }).optional(),
+    scale: z.number().min(0.1).max(2).optional(),
+    vector: z.boolean().optional(),
+})
+
+export const ViewportSchema = z.object({
+    width: z.number().int().positive(),
+    height: z.number().int().positive(),
+})
+
+export const ThemeEnum = z.enum(['default', 'base', 'dark', 'forest', 'neutral', 'null'])
+
+export const FontFaceSchema = z.object({
+    family: z.string().min(1, 'Font family is required'),
+    // A data: URI or a local font file (woff2, woff, ttf, otf) inside the allowed dirs
+    src: z.string().min(1, 'Font source is required'),
+    weight: z.union([z.string(), z.number()]).optional(),
+    style: z.enum(['normal', 'italic', 'oblique']).optional(),
+})
+
+export const ThemeVariablesSchema = z.record(z.union([z.string(), z.number(), z.boolean()]))
+
+export const ThemePresetSchema = z.object({
+    theme: ThemeEnum.optional(),
+    themeVariables: ThemeVariablesSchema.optional(),
+    themeCSS: z.string().optional(),
+    fontFamily: z.string().optional(),
+    fonts: z.array(FontFaceSchema).optional(),
+})
+
+export const ThemePresetsFileSchema = z.record(ThemePresetSchema)
+
+// Mermaid's `sandbox` level renders into an iframe and cannot be captured
+export const SecurityLevelEnum = z.enum(['strict', 'antiscript', 'loose'])
+
+// Per-diagram settings of Mermaid 11. Sections pass unknown keys through so
+// they can be reported as warnings instead of failing the request.
+const DiagramConfigBase = {
+    useWidth: z.number().optional(),
+    useMaxWidth: z.boolean().optional(),
+}
+
+const JourneyConfigShape = {
+    ...DiagramConfigBase,
+    diagramMarginX: z.number().optional(),
+    diagramMarginY: z.number().optional(),
+    leftMargin: z.number().optional(),
+    width: z.number().optional(),
+    height: z.number().optional(),
+    boxMargin: z.number().optional(),
+    boxTextMargin: z.number().optional(),
+    noteMargin: z.number().optional(),
+    messageMargin: z.number().optional(),
+    messageAlign: z.enum(['left', 'center', 'right']).optional(),
+    bottomMarginAdj: z.number().optional(),
+    rightAngles: z.boolean().optional(),
+    taskFontSize: z.union([z.string(), z.number()]).optional(),
+    taskFontFamily: z.string().optional(),
+    taskMargin: z.number().optional(),
+    activationWidth: z.number().optional(),
+    textPlacement: z.string().optional(),
+    actorColours: z.array(z.string()).optional(),
+    sectionFills: z.array(z.string()).optional(),
+    sectionColours: z.array(z.string()).optional(),
+}
+
+export const MermaidConfigSchema = z.object({
+    look: z.enum(['classic', 'handDrawn']).optional(),
+    handDrawnSeed: z.number().optional(),
+    layout: z.string().optional(),
+    maxEdges: z.number().optional(),
+    wrap: z.boolean().optional(),
+    markdownAutoWrap: z.boolean().optional(),
+    deterministicIds: z.boolean().optional(),
+    deterministicIDSeed: z.string().optional(),
+    arrowMarkerAbsolute: z.boolean().optional(),
+    legacyMathML: z.boolean().optional(),
+    forceLegacyMathML: z.boolean().optional(),
+    flowchart: z.object({
+        ...DiagramConfigBase,
+        titleTopMargin: z.number().optional(),
+        subGraphTitleMargin: z.object({ top: z.number().optional(), bottom: z.number().optional() }).passthrough().optional(),
+        arrowMarkerAbsolute: z.boolean().optional(),
+        diagramPadding: z.number().optional(),
+        htmlLabels: z.boolean().optional(),
+        nodeSpacing: z.number().optional(),
+        rankSpacing: z.number().optional(),
+        curve: z.enum(['linear', 'basis', 'bumpX', 'bumpY', 'cardinal', 'catmullRom', 'monotoneX', 'monotoneY', 'natural', 'step', 'stepAfter', 'stepBefore']).optional(),
+        padding: z.number().optional(),
+        defaultRenderer: z.enum(['dagre-d3', 'dagre-wrapper', 'elk']).optional(),
+        wrappingWidth: z.number().optional(),
+        inheritDir: z.boolean().optional(),
+    }).passthrough().optional(),
+    sequence: z.object({
+        ...DiagramConfigBase,
+        arrowMarkerAbsolute: z.boolean().optional(),
+        hideUnusedParticipants: z.boolean().optional(),
+        activationWidth: z.number().optional(),
+        diagramMarginX: z.number().optional(),
+        diagramMarginY: z.number().optional(),
+        actorMargin: z.number().optional(),
+        width: z.number().optional(),
+        height: z.number().optional(),
+        boxMargin: z.number().optional(),
+        boxTextMargin: z.number().optional(),
+        noteMargin: z.number().optional(),
+        messageMargin: z.number().optional(),
+        messageAlign: z.enum(['left', 'center', 'right']).optional(),
+        mirrorActors: z.boolean().optional(),
+        forceMenus: z.boolean().optional(),
+        bottomMarginAdj: z.number().optional(),
+        rightAngles: z.boolean().optional(),
+        showSequenceNumbers: z.boolean().optional(),
+        actorFontSize: z.union([z.string(), z.number()]).optional(),
+        actorFontFamily: z.string().optional(),
+        actorFontWeight: z.union([z.string(), z.number()]).optional(),
+        noteFontSize: z.union([z.string(), z.number()]).optional(),
+        noteFontFamily: z.string().optional(),
+        noteFontWeight: z.union([z.string(), z.number()]).optional(),
+        noteAlign: z.enum(['left', 'center', 'right']).optional(),
+        messageFontSize: z.union([z.string(), z.number()]).optional(),
+        messageFontFamily: z.string().optional(),
+        messageFontWeight: z.union([z.string(), z.number()]).optional(),
+        wrap: z.boolean().optional(),
+        wrapPadding: z.number().optional(),
+        labelBoxWidth: z.number().optional(),
+        labelBoxHeight: z.number().optional(),
+    }).passthrough().optional(),
+    gantt: z.object({
+        ...DiagramConfigBase,
+        titleTopMargin: z.number().optional(),
+        barHeight: z.number().optional(),
+        barGap: z.number().optional(),
+        topPadding: z.number().optional(),
+        rightPadding: z.number().optional(),
+        leftPadding: z.number().optional(),
+        gridLineStartPadding: z.number().optional(),
+        fontSize: z.number().optional(),
+        sectionFontSize: z.union([z.string(), z.number()]).optional(),
+        numberSectionStyles: z.number().optional(),
+        axisFormat: z.string().optional(),
+        tickInterval: z.string().optional(),
+        topAxis: z.boolean().optional(),
+        displayMode: z.enum(['', 'compact']).optional(),
+        weekday: z.enum(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']).optional(),
+    }).passthrough().optional(),
+    journey: z.object(JourneyConfigShape).passthrough().optional(),
+    timeline: z.object({
+        ...JourneyConfigShape,
+        padding: z.number().optional(),
+        disableMulticolor: z.boolean().optional(),
+    }).passthrough().optional(),
+    class: z.object({
+        ...DiagramConfigBase,
+        titleTopMargin: z.number().optional(),
+        arrowMarkerAbsolute: z.boolean().optional(),
+        dividerMargin: z.number().optional(),
+        padding: z.number().optional(),
+        textHeight: z.number().optional(),
+        defaultRenderer: z.enum(['dagre-d3', 'dagre-wrapper', 'elk']).optional(),
+        nodeSpacing: z.number().optional(),
+        rankSpacing: z.number().optional(),
+        diagramPadding: z.number().optional(),
+        htmlLabels: z.boolean().optional(),
+        hideEmptyMembersBox: z.boolean().optional(),
+    }).passthrough().optional(),
+    state: z.object({
+        ...DiagramConfigBase,
+        titleTopMargin: z.number().optional(),
+        arrowMarkerAbsolute: z.boolean().optional(),
+        dividerMargin: z.number().optional(),
+        sizeUnit: z.number().optional(),
+        padding: z.number().optional(),
+        textHeight: z.number().optional(),
+        titleShift: z.number().optional(),
+        noteMargin: z.number().optional(),
+        forkWidth: z.number().optional(),
+        forkHeight: z.number().optional(),
+        miniPadding: z.number().optional(),
+        fontSizeFactor: z.number().optional(),
+        fontSize: z.number().optional(),
+        labelHeight: z.number().optional(),
+        edgeLengthFactor: z.string().optional(),
+        compositTitleSize: z.number().optional(),
+        radius: z.number().optional(),
+        defaultRenderer: z.enum(['dagre-d3', 'dagre-wrapper', 'elk']).optional(),
+        nodeSpacing: z.number().optional(),
+        rankSpacing: z.number().optional(),
+    }).passthrough().optional(),
+    er: z.object({
+        ...DiagramConfigBase,
+        titleTopMargin: z.number().optional(),
+        diagramPadding: z.number().optional(),
+        layoutDirection: z.enum(['TB', 'BT', 'LR', 'RL']).optional(),
+        minEntityWidth: z.number().optional(),
+        minEntityHeight: z.number().optional(),
+        entityPadding: z.number().optional(),
+        stroke: z.string().optional(),
+        fill: z.string().optional(),
+        fontSize: z.number().optional(),
+        nodeSpacing: z.number().optional(),
+        rankSpacing: z.number().optional(),
+    }).passthrough().optional(),
+    pie: z.object({
+        ...DiagramConfigBase,
+        textPosition: z.number().min(0).max(1).optional(),
+    }).passthrough().optional(),
+    quadrantChart: z.object({
+        ...DiagramConfigBase,
+        chartWidth: z.number().optional(),
+        chartHeight: z.number().optional(),
+        titleFontSize: z.number().optional(),
+        titlePadding: z.number().optional(),
+        quadrantPadding: z.number().optional(),
+        xAxisLabelPadding: z.number().optional(),
+        yAxisLabelPadding: z.number().optional(),
+        xAxisLabelFontSize: z.number().optional(),
+        yAxisLabelFontSize: z.number().optional(),
+        quadrantLabelFontSize: z.number().optional(),
+        quadrantTextTopPadding: z.number().optional(),
+        pointTextPadding: z.number().optional(),
+        pointLabelFontSize: z.number().optional(),
+        pointRadius: z.number().optional(),
+        xAxisPosition: z.enum(['top', 'bottom']).optional(),
+        yAxisPosition: z.enum(['left', 'right']).optional(),
+        quadrantInternalBorderStrokeWidth: z.number().optional(),
+        quadrantExternalBorderStrokeWidth: z.number().optional(),
+    }).passthrough().optional(),
+    xyChart: z.object({
+        ...DiagramConfigBase,
+        width: z.number().optional(),
+        height: z.number().optional(),
+        titleFontSize: z.number().optional(),
+        titlePadding: z.number().optional(),
+        showTitle: z.boolean().optional(),
+        showDataLabel: z.boolean().optional(),
+        xAxis: z.record(z.unknown()).optional(),
+        yAxis: z.record(z.unknown()).optional(),
+        chartOrientation: z.enum(['vertical', 'horizontal']).optional(),
+        plotReservedSpacePercent: z.number().optional(),
+    }).passthrough().optional(),
+    requirement: z.object({
+        ...DiagramConfigBase,
+        rect_fill: z.string().optional(),
+        text_color: z.string().optional(),
+        rect_border_size: z.string().optional(),
+        rect_border_color: z.string().optional(),
+        rect_min_width: z.number().optional(),
+        rect_min_height: z.number().optional(),
+        fontSize: z.number().optional(),
+        rect_padding: z.number().optional(),
+        line_height: z.number().optional(),
+        nodeSpacing: z.number().optional(),
+        rankSpacing: z.number().optional(),
+    }).passthrough().optional(),
+    mindmap: z.object({
+        ...DiagramConfigBase,
+        padding: z.number().optional(),
+        maxNodeWidth: z.number().optional(),
+        layoutAlgorithm: z.string().optional(),
+    }).passthrough().optional(),
+    kanban: z.object({
+        ...DiagramConfigBase,
+        padding: z.number().optional(),
+        sectionWidth: z.number().optional(),
+        ticketBaseUrl: z.string().optional(),
+    }).passthrough().optional(),
+    gitGraph: z.object({
+        ...DiagramConfigBase,
+        titleTopMargin: z.number().optional(),
+        diagramPadding: z.number().optional(),
+        nodeLabel: z.record(z.unknown()).optional(),
+        mainBranchName: z.string().optional(),
+        mainBranchOrder: z.number().optional(),
+        showCommitLabel: z.boolean().optional(),
+        showBranches: z.boolean().optional(),
+        rotateCommitLabel: z.boolean().optional(),
+        parallelCommits: z.boolean().optional(),
+        arrowMarkerAbsolute: z.boolean().optional(),
+    }).passthrough().optional(),
+    // C4 has a font and color setting per element type, too many to list
+    c4: z.record(z.unknown()).optional(),
+    sankey: z.object({
+        ...DiagramConfigBase,
+        width: z.number().optional(),
+        height: z.number().optional(),
+        linkColor: z.string().optional(),
+        nodeAlignment: z.enum(['left', 'right', 'center', 'justify']).optional(),
+        showValues: z.boolean().optional(),
+        prefix: z.string().optional(),
+        suffix: z.string().optional(),
+    }).passthrough().optional(),
+    packet: z.object({
+        ...DiagramConfigBase,
+        rowHeight: z.number().optional(),
+        bitWidth: z.number().optional(),
+        bitsPerRow: z.number().optional(),
+        showBits: z.boolean().optional(),
+        paddingX: z.number().optional(),
+        paddingY: z.number().optional(),
+    }).passthrough().optional(),
+    block: z.object({
+        ...DiagramConfigBase,
+        padding: z.number().optional(),
+    }).passthrough().optional(),
+    radar: z.object({
+        ...DiagramConfigBase,
+        width: z.number().optional(),
+        height: z.number().optional(),
+        marginTop: z.number().optional(),
+        marginRight: z.number().optional(),
+        marginBottom: z.number().optional(),
+        marginLeft: z.number().optional(),
+        axisScaleFactor: z.number().optional(),
+        axisLabelFactor: z.number().optional(),
+        curveTension: z.number().optional(),
+    }).passthrough().optional(),
+    architecture: z.object({
+        ...DiagramConfigBase,
+        padding: z.number().optional(),
+        iconSize: z.number().optional(),
+        fontSize: z.number().optional(),
+    }).passthrough().optional(),
+}).passthrough()
 
 // Mermaid specific schema
 export const RenderMermaidRequestSchema = z.object({
     mermaidCode: z.string().min(1, 'Mermaid code is required'),
-    format: z.enum(['svg', 'png', 'jpg', 'pdf']).default('svg'),
-    theme: z.enum(['default', 'base', 'dark', 'forest', 'neutral', 'null']).default('default'),
+    format: FormatEnum.default('svg'),
+    theme: ThemeEnum.default('default'),
+    themePreset: z.string().optional(),
+    themeVariables: ThemeVariablesSchema.optional(),
+    themeCSS: z.string().optional(),
+    fonts: z.array(FontFaceSchema).optional(),
+    securityLevel: SecurityLevelEnum.optional(),
     backgroundColor: z.string().optional(),
     filePath: z.string().optional(),
+    createDirs: z.boolean().optional(),
+    overwrite: z.boolean().optional(),
     width: z.number().optional(),
     height: z.number().optional(),
-    quality: z.number().min(1).max(100).default(90).optional(),
+    scale: z.number().min(0.1).max(4).optional(),
+    maxWidth: z.number().optional(),
+    maxHeight: z.number().optional(),
+    quality: z.number().min(1).max(100).optional(),
+    lossless: z.boolean().optional(),
     output: OutputTypeEnum.default('link').optional(),
+    cache: z.boolean().optional(),
+    pdf: PdfOptionsSchema.optional(),
+    timeoutMs: z.number().int().positive().optional(),
+    padding: z.number().min(0).optional(),
+    viewport: ViewportSchema.optional(),
     fontFamily: z.string().optional(),
     fontSize: z.number().optional(),
     darkMode: z.boolean().optional(),
@@ -29,33 +383,179 @@ export const RenderMermaidRequestSchema = z.object({
         rightAngles: z.boolean().optional(),
         wrap: z.boolean().optional(),
     }).optional(),
+    mermaidConfig: MermaidConfigSchema.optional(),
+})
+
+export const PlotlyFigureSchema = z.object({
+    data: z.array(z.record(z.unknown())).min(1, 'Figure data must contain at least one trace'),
+    layout: z.record(z.unknown()).optional(),
+    config: z.record(z.unknown()).optional(),
+    frames: z.array(z.record(z.unknown())).optional(),
 })
 
 // Plotly specific schema
 export const RenderPlotlyRequestSchema = z.object({
-    plotlyCode: z.string().min(1, 'Plotly code is required'),
-    format: z.enum(['svg', 'png', 'jpg', 'pdf']).default('svg'),
+    figure: PlotlyFigureSchema.optional(),
+    plotlyCode: z.string().min(1, 'Plotly code cannot be empty').optional(),
+    format: FormatEnum.default('svg'),
     backgroundColor: z.string().optional(),
     filePath: z.string().optional(),
+    createDirs: z.boolean().optional(),
+    overwrite: z.boolean().optional(),
     width: z.number().optional(),
     height: z.number().optional(),
-    quality: z.number().min(1).max(100).default(90).optional(),
+    scale: z.number().min(0.1).max(4).optional(),
+    maxWidth: z.number().optional(),
+    maxHeight: z.number().optional(),
+    quality: z.number().min(1).max(100).optional(),
+    lossless: z.boolean().optional(),
     output: OutputTypeEnum.default('link').optional(),
+    cache: z.boolean().optional(),
+    pdf: PdfOptionsSchema.optional(),
+    timeoutMs: z.number().int().positive().optional(),
+    padding: z.number().min(0).optional(),
+    viewport: ViewportSchema.optional(),
     responsive: z.boolean().optional(),
     displayModeBar: z.boolean().optional(),
     modeBarButtonsToRemove: z.array(z.string()).optional(),
     displaylogo: z.boolean().optional(),
 })
 
+export const GraphvizEngineEnum = z.enum(['dot', 'neato', 'fdp', 'circo', 'twopi'])
+
+// Graphviz specific schema
+export const RenderGraphvizRequestSchema = z.object({
+    dotCode: z.string().min(1, 'DOT code is required'),
+    engine: GraphvizEngineEnum.default('dot'),
+    format: FormatEnum.default('svg'),
+    backgroundColor: z.string().optional(),
+    filePath: z.string().optional(),
+    createDirs: z.boolean().optional(),
+    overwrite: z.boolean().optional(),
+    width: z.number().optional(),
+    height: z.number().optional(),
+    scale: z.number().min(0.1).max(4).optional(),
+    maxWidth: z.number().optional(),
+    maxHeight: z.number().optional(),
+    quality: z.number().min(1).max(100).optional(),
+    lossless: z.boolean().optional(),
+    output: OutputTypeEnum.default('link').optional(),
+    cache: z.boolean().optional(),
+    pdf: PdfOptionsSchema.optional(),
+    timeoutMs: z.number().int().positive().optional(),
+    padding: z.number().min(0).optional(),
+    viewport: ViewportSchema.optional(),
+})
+
+// PlantUML specific schema
+export const RenderPlantumlRequestSchema = z.object({
+    plantumlCode: z.string().min(1, 'PlantUML code is required'),
+    format: FormatEnum.default('svg'),
+    backgroundColor: z.string().optional(),
+    filePath: z.string().optional(),
+    createDirs: z.boolean().optional(),
+    overwrite: z.boolean().optional(),
+    width: z.number().optional(),
+    height: z.number().optional(),
+    scale: z.number().min(0.1).max(4).optional(),
+    maxWidth: z.number().optional(),
+    maxHeight: z.number().optional(),
+    quality: z.number().min(1).max(100).optional(),
+    lossless: z.boolean().optional(),
+    output: OutputTypeEnum.default('link').optional(),
+    cache: z.boolean().optional(),
+    pdf: PdfOptionsSchema.optional(),
+    timeoutMs: z.number().int().positive().optional(),
+    padding: z.number().min(0).optional(),
+    viewport: ViewportSchema.optional(),
+})
+
+export const ValidateMermaidRequestSchema = z.object({
+    mermaidCode: z.string().min(1, 'Mermaid code is required'),
+})
+
+export const BatchJobSchema = z.discriminatedUnion('type', [
+    RenderMermaidRequestSchema.extend({
+        type: z.literal('mermaid'),
+        id: z.string().optional(),
+    }),
+    RenderPlotlyRequestSchema.extend({
+        type: z.literal('plotly'),
+        id: z.string().optional(),
+    }),
+])
+
+export const BundleTypeEnum = z.enum(['none', 'zip', 'pdf'])
+
+export const RenderBatchRequestSchema = z.object({
+    jobs: z.array(BatchJobSchema).min(1, 'At least one job is required').max(50, 'At most 50 jobs per batch'),
+    concurrency: z.number().int().min(1).max(16).optional(),
+    bundle: BundleTypeEnum.default('none').optional(),
+    bundleOutput: z.enum(['link', 'filepath', 'raw']).default('link').optional(),
+    bundleFilePath: z.string().optional(),
+    createDirs: z.boolean().optional(),
+    overwrite: z.boolean().optional(),
+})
+
+// Formats that can be embedded in a document as an image
+export const EmbeddableFormatEnum = FormatEnum.exclude(['pdf'])
+
+export const RenderMarkdownRequestSchema = z.object({
+    markdown: z.string().min(1, 'Markdown is required'),
+    format: EmbeddableFormatEnum.default('svg'),
+    embed: z.enum(['link', 'inline']).default('link').optional(),
+    plotly: z.boolean().default(false).optional(),
+    theme: RenderMermaidRequestSchema.shape.theme,
+    themePreset: z.string().optional(),
+    backgroundColor: z.string().optional(),
+    cache: z.boolean().optional(),
+    documentFormat: z.enum(['markdown', 'html', 'pdf']).default('markdown').optional(),
+    documentOutput: z.enum(['link', 'filepath', 'raw']).default('link').optional(),
+    title: z.string().optional(),
+    pdf: PdfOptionsSchema.optional(),
+})
+
 // Keep the old schema for backward compatibility
 export const RenderDiagramRequestSchema = RenderMermaidRequestSchema
 export const ConvertToImageRequestSchema = RenderMermaidRequestSchema
 
 export type RenderMermaidRequest = z.infer<typeof RenderMermaidRequestSchema>
 export type RenderPlotlyRequest = z.infer<typeof RenderPlotlyRequestSchema>
+export type PlotlyFigure = z.infer<typeof PlotlyFigureSchema>
+export type RenderGraphvizRequest = z.infer<typeof RenderGraphvizRequestSchema>
+export type GraphvizEngine = z.infer<typeof GraphvizEngineEnum>
+export type RenderPlantumlRequest = z.infer<typeof RenderPlantumlRequestSchema>
 export type RenderDiagramRequest = z.infer<typeof RenderDiagramRequestSchema>
 export type ConvertToImageRequest = z.infer<typeof ConvertToImageRequestSchema>
+export type ValidateMermaidRequest = z.infer<typeof ValidateMermaidRequestSchema>
+export type BatchJob = z.infer<typeof BatchJobSchema>
+export type RenderBatchRequest = z.infer<typeof RenderBatchRequestSchema>
+export type BundleType = z.infer<typeof BundleTypeEnum>
+export type RenderMarkdownRequest = z.infer<typeof RenderMarkdownRequestSchema>
 export type OutputType = z.infer<typeof OutputTypeEnum>
+export type Format = z.infer<typeof FormatEnum>
+export type PdfOptions = z.infer<typeof PdfOptionsSchema>
+export type Viewport = z.infer<typeof ViewportSchema>
+export type Theme = z.infer<typeof ThemeEnum>
+export type MermaidConfig = z.infer<typeof MermaidConfigSchema>
+export type FontFace = z.infer<typeof FontFaceSchema>
+export type ThemePreset = z.infer<typeof ThemePresetSchema>
+
+export interface MermaidSyntaxError {
+    message: string
+    line?: number
+    column?: number
+    expected?: string[]
+    token?: string
+    snippet?: string
+}
+
+export interface MermaidValidationResult {
+    valid: boolean
+    diagramType?: string
+    error?: MermaidSyntaxError
+    warnings?: string[]
+}
 
 export interface DiagramResult {
     success: boolean
@@ -67,4 +567,38 @@ export interface DiagramResult {
         height: number
     }
     output_type?: OutputType
-} 
\ No newline at end of file
+    file_path?: string
+    mime_type?: string
+    resource_uri?: string
+    cache?: 'hit' | 'miss' | 'bypass'
+    syntaxError?: MermaidSyntaxError
+    warnings?: string[]
+}
+
+export interface BatchItemResult extends DiagramResult {
+    index: number
+    id?: string
+    type: BatchJob['type']
+}
+
+export interface BatchResult {
+    success: boolean
+    succeeded: number
+    failed: number
+    results: BatchItemResult[]
+    bundle?: DiagramResult
+}
+
+export interface MarkdownArtifact extends DiagramResult {
+    index: number
+    language: string
+    line: number
+}
+
+export interface MarkdownResult {
+    success: boolean
+    markdown?: string
+    artifacts: MarkdownArtifact[]
+    document?: DiagramResult
+    error?: string
+}
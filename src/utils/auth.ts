@@ -0,0 +1,87 @@
+import { createHash, timingSafeEqual } from 'crypto'
+import { NextFunction, Request, Response } from 'express'
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js'
+import { config, logger } from '../config.js'
+
+declare global {
+    namespace Express {
+        interface Request {
+            // Set by `requireAuth`, the MCP transport passes it on as `extra.authInfo`
+            auth?: AuthInfo
+        }
+    }
+}
+
+function digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest()
+}
+
+/**
+ * Reads the token from `Authorization: Bearer <token>` or `X-API-Key`.
+ */
+function getRequestToken(req: Request): string | undefined {
+    const authorization = req.headers.authorization
+    if (authorization) {
+        const [type, token] = authorization.split(' ')
+        return type.toLowerCase() === 'bearer' && token ? token.trim() : undefined
+    }
+
+    const apiKey = req.headers['x-api-key']
+    return typeof apiKey === 'string' && apiKey.length > 0 ? apiKey.trim() : undefined
+}
+
+export function isAuthEnabled(): boolean {
+    return config.apiKeys.length > 0
+}
+
+/**
+ * Looks the token up in the configured API keys. Tokens are compared as
+ * digests in constant time, so the comparison leaks neither content nor length.
+ */
+export function authenticate(req: Request): AuthInfo | undefined {
+    const token = getRequestToken(req)
+    if (!token) {
+        return undefined
+    }
+
+    const tokenDigest = digest(token)
+    const apiKey = config.apiKeys.find(key => timingSafeEqual(digest(key.token), tokenDigest))
+    return apiKey ? { token, clientId: apiKey.name, scopes: [] } : undefined
+}
+
+/**
+ * Rejects requests without a valid API key. Does nothing when no keys are
+ * configured, which keeps local single-user setups working unchanged.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+    if (!isAuthEnabled()) {
+        next()
+        return
+    }
+
+    const authInfo = authenticate(req)
+    if (!authInfo) {
+        logger.warn({ path: req.path, ip: req.ip }, 'Rejected request without a valid API key')
+        res.set('WWW-Authenticate', 'Bearer')
+        res.status(401).json({
+            jsonrpc: '2.0',
+            error: {
+                code: -32001,
+                message: 'Unauthorized: a valid API key is required'
+            },
+            id: null
+        })
+        return
+    }
+
+    req.auth = authInfo
+    next()
+}
+
+/**
+ * The name rate limits and quotas are counted under: the API key's name, or
+ * the client address when authentication is off.
+ */
+export function getClientId(req: Request): string {
+    return req.auth?.clientId ?? `ip:${req.ip}`
+}
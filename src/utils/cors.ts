@@ -0,0 +1,34 @@
+import { NextFunction, Request, Response } from 'express'
+import { config } from '../config.js'
+
+const ALLOWED_HEADERS = ['Content-Type', 'Authorization', 'X-API-Key', 'Mcp-Session-Id', 'Mcp-Protocol-Version', 'Last-Event-ID']
+const EXPOSED_HEADERS = ['Mcp-Session-Id', 'WWW-Authenticate', 'Retry-After']
+
+/**
+ * Answers browser clients from the origins in CORS_ORIGINS ("*" for any).
+ * Without configured origins no CORS headers are sent, so browsers on other
+ * origins cannot call the server.
+ */
+export function cors(req: Request, res: Response, next: NextFunction) {
+    const origin = req.headers.origin
+    const allowed = origin !== undefined
+        && (config.corsOrigins.includes('*') || config.corsOrigins.includes(origin))
+
+    if (allowed) {
+        res.set('Access-Control-Allow-Origin', origin)
+        res.set('Access-Control-Expose-Headers', EXPOSED_HEADERS.join(', '))
+    }
+    res.vary('Origin')
+
+    if (req.method === 'OPTIONS') {
+        if (allowed) {
+            res.set('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS')
+            res.set('Access-Control-Allow-Headers', ALLOWED_HEADERS.join(', '))
+            res.set('Access-Control-Max-Age', '600')
+        }
+        res.status(204).end()
+        return
+    }
+
+    next()
+}
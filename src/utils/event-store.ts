@@ -0,0 +1,98 @@
+import { EventId, EventStore, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+import assert from 'assert'
+
+interface StoredEvent {
+    eventId: EventId
+    streamId: StreamId
+    message: JSONRPCMessage
+    bytes: number
+}
+
+export interface EventStoreLimits {
+    // Events kept across all streams of the session
+    maxEvents: number
+    // Serialized size of those events
+    maxBytes: number
+}
+
+/**
+ * Keeps the messages sent on a session's SSE streams, so a client that
+ * reconnects with Last-Event-ID gets what it missed. One store belongs to one
+ * session and is dropped with it. The SDK opens a new stream for every POST,
+ * so the limits apply to the session as a whole: the oldest events are
+ * dropped first, and a stream goes away with its last event.
+ */
+export class MemoryEventStore implements EventStore {
+    private readonly events: StoredEvent[] = []
+    private readonly streams = new Map<StreamId, StoredEvent[]>()
+    private readonly eventStreams = new Map<EventId, StreamId>()
+    private totalBytes = 0
+    private nextEventId = 1
+
+    constructor(private readonly limits: EventStoreLimits) {
+        assert(limits.maxEvents > 0, `maxEvents must be positive, got: ${limits.maxEvents}`)
+        assert(limits.maxBytes > 0, `maxBytes must be positive, got: ${limits.maxBytes}`)
+    }
+
+    get size(): { events: number, streams: number, bytes: number } {
+        return { events: this.events.length, streams: this.streams.size, bytes: this.totalBytes }
+    }
+
+    async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+        const eventId = String(this.nextEventId++)
+        const event: StoredEvent = { eventId, streamId, message, bytes: Buffer.byteLength(JSON.stringify(message)) }
+
+        let streamEvents = this.streams.get(streamId)
+        if (!streamEvents) {
+            streamEvents = []
+            this.streams.set(streamId, streamEvents)
+        }
+
+        streamEvents.push(event)
+        this.events.push(event)
+        this.eventStreams.set(eventId, streamId)
+        this.totalBytes += event.bytes
+
+        while (this.events.length > this.limits.maxEvents || (this.totalBytes > this.limits.maxBytes && this.events.length > 0)) {
+            this.dropOldest()
+        }
+
+        return eventId
+    }
+
+    private dropOldest() {
+        const dropped = this.events.shift()!
+        this.eventStreams.delete(dropped.eventId)
+        this.totalBytes -= dropped.bytes
+
+        // Events are stored in order, so the oldest of all is the oldest of its stream
+        const streamEvents = this.streams.get(dropped.streamId)!
+        streamEvents.shift()
+        if (streamEvents.length === 0) {
+            this.streams.delete(dropped.streamId)
+        }
+    }
+
+    /**
+     * Sends the events stored after `lastEventId` on the same stream. Returns
+     * an empty stream id when the event is unknown or already dropped.
+     */
+    async replayEventsAfter(
+        lastEventId: EventId,
+        { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+    ): Promise<StreamId> {
+        const streamId = this.eventStreams.get(lastEventId)
+        if (streamId === undefined) {
+            return ''
+        }
+
+        const events = this.streams.get(streamId) ?? []
+        const position = events.findIndex(event => event.eventId === lastEventId)
+        for (const event of events.slice(position + 1)) {
+            await send(event.eventId, event.message)
+        }
+
+        return streamId
+    }
+}
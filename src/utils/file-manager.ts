@@ -1,22 +1,137 @@
-import { writeFile, mkdir, readdir, unlink } from 'fs/promises'
-import { join, resolve } from 'path'
+import { writeFile, mkdir, readdir, unlink, stat } from 'fs/promises'
+import { realpathSync } from 'fs'
+import { basename, dirname, extname, isAbsolute, join, relative, resolve } from 'path'
 import { randomUUID } from 'crypto'
 import assert from 'assert'
 import { config, logger } from '../config.js'
 
 const TEMP_DIR = config.staticDir
 
+const FILE_EXTENSIONS: Record<string, string[]> = {
+    svg: ['.svg'],
+    png: ['.png'],
+    jpg: ['.jpg', '.jpeg'],
+    jpeg: ['.jpg', '.jpeg'],
+    webp: ['.webp'],
+    avif: ['.avif'],
+    pdf: ['.pdf'],
+    zip: ['.zip'],
+    html: ['.html', '.htm']
+}
+
+export interface FileDestination {
+    filePath: string
+    createDirs?: boolean
+    overwrite?: boolean
+}
+
+/**
+ * Resolves symlinks in the longest existing prefix of the path, so a path that
+ * does not exist yet is still checked against where it would really land.
+ */
+function realPath(filePath: string): string {
+    const resolvedPath = resolve(filePath)
+    let existing = resolvedPath
+    const missing: string[] = []
+
+    while (true) {
+        try {
+            return join(realpathSync(existing), ...missing)
+        } catch {
+            const parent = dirname(existing)
+            if (parent === existing) {
+                return resolvedPath
+            }
+            missing.unshift(basename(existing))
+            existing = parent
+        }
+    }
+}
+
+function isInsideDir(filePath: string, dir: string): boolean {
+    const relativePath = relative(dir, filePath)
+    return relativePath === '' || (!relativePath.startsWith('..') && !isAbsolute(relativePath))
+}
+
 export class FileManager {
+    /**
+     * Caller supplied paths are opt-in: without ALLOWED_DIRS no path is allowed.
+     */
     static validateAllowedPath(filePath: string): boolean {
         if (config.allowedDirs.length === 0) {
-            return true
+            return false
         }
 
-        const resolvedPath = resolve(filePath)
-        return config.allowedDirs.some(allowedDir => {
-            const resolvedAllowedDir = resolve(allowedDir)
-            return resolvedPath.startsWith(resolvedAllowedDir)
-        })
+        const resolvedPath = realPath(filePath)
+        return config.allowedDirs.some(allowedDir => isInsideDir(resolvedPath, realPath(allowedDir)))
+    }
+
+    static withExtension(filePath: string, format: string): string {
+        const extensions = FILE_EXTENSIONS[format]
+        assert(extensions, `Invalid format: ${format}`)
+
+        return extensions.includes(extname(filePath).toLowerCase()) ? filePath : `${filePath}${extensions[0]}`
+    }
+
+    /**
+     * Checks a caller supplied path and returns it with the format's extension.
+     * The path must be inside the allowed dirs, its parent must exist unless
+     * `createDirs` is set, and an existing file is only replaced when
+     * `overwrite` is set. Render tools call this before rendering, so a bad
+     * path fails the request before anything is stored.
+     */
+    static async checkDestination(destination: FileDestination, format: string): Promise<string> {
+        assert(destination.filePath, 'File path is required')
+        assert(destination.filePath.trim().length > 0, 'File path cannot be empty')
+
+        const filePath = resolve(this.withExtension(destination.filePath, format))
+
+        if (config.allowedDirs.length === 0) {
+            throw new Error('Saving to a file path is disabled, set ALLOWED_DIRS to enable it')
+        }
+        if (!this.validateAllowedPath(filePath)) {
+            logger.warn({ filePath, allowedDirs: config.allowedDirs }, 'File path is not in allowed directories')
+            throw new Error(`File path ${filePath} is not in allowed directories: ${config.allowedDirs.join(', ')}`)
+        }
+
+        if (!destination.createDirs) {
+            const parentDir = dirname(filePath)
+            const parent = await stat(parentDir).catch(() => null)
+            if (!parent || !parent.isDirectory()) {
+                throw new Error(`Directory ${parentDir} does not exist, set createDirs to create it`)
+            }
+        }
+
+        if (!destination.overwrite && await stat(filePath).catch(() => null)) {
+            throw new Error(`File ${filePath} already exists, set overwrite to replace it`)
+        }
+
+        return filePath
+    }
+
+    /**
+     * Writes a render to a caller supplied path, under the rules of
+     * `checkDestination`.
+     */
+    static async saveToPath(data: Buffer, format: string, destination: FileDestination): Promise<string> {
+        assert(data && data.length > 0, 'Data is required')
+        const filePath = await this.checkDestination(destination, format)
+
+        if (destination.createDirs) {
+            await mkdir(dirname(filePath), { recursive: true })
+        }
+
+        try {
+            await writeFile(filePath, data, { flag: destination.overwrite ? 'w' : 'wx' })
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+                throw new Error(`File ${filePath} already exists, set overwrite to replace it`)
+            }
+            throw error
+        }
+
+        logger.info({ filePath, format }, 'Saved render to file path')
+        return filePath
     }
 
     static async ensureTempDir() {
@@ -56,11 +171,11 @@ export class FileManager {
         }
     }
 
-    static async saveTempFile(data: string | Buffer, format: string): Promise<string> {
+    static async saveTempFile(data: string | Buffer, format: string, baseName?: string): Promise<string> {
         assert(data, 'Data is required')
         assert(format, 'Format is required')
         assert(format.trim().length > 0, 'Format cannot be empty')
-        assert(['svg', 'png', 'jpg', 'jpeg', 'pdf'].includes(format), `Invalid format: ${format}`)
+        assert(Object.keys(FILE_EXTENSIONS).includes(format), `Invalid format: ${format}`)
 
         if (typeof data === 'string') {
             assert(data.length > 0, 'String data cannot be empty')
@@ -71,17 +186,18 @@ export class FileManager {
         await this.ensureTempDir()
         assert(TEMP_DIR, 'TEMP_DIR must be defined')
 
-        const filename = `${randomUUID()}.${format}`
+        if (baseName !== undefined) {
+            assert(/^[A-Za-z0-9_-]+$/.test(baseName), `Invalid file base name: ${baseName}`)
+        }
+
+        const filename = `${baseName || randomUUID()}.${format}`
         assert(filename, 'Filename must be generated')
         assert(filename.includes(format), 'Filename must include format extension')
 
+        // The server's own store, ALLOWED_DIRS only limits caller supplied paths
         const filePath = join(TEMP_DIR, filename)
         assert(filePath, 'File path must be generated')
 
-        if (!this.validateAllowedPath(filePath)) {
-            logger.warn({ filePath, allowedDirs: config.allowedDirs }, 'File path is not in allowed directories')
-            throw new Error(`File path ${filePath} is not in allowed directories: ${config.allowedDirs.join(', ')}`)
-        }
         logger.info({ filePath, filename }, 'Saving temp file')
         await writeFile(filePath, data)
         return filename
@@ -0,0 +1,47 @@
+import { NextFunction, Request, Response } from 'express'
+import { config, logger } from '../config.js'
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]']
+
+function isLoopbackAddress(address: string): boolean {
+    return address === 'localhost' || address === '::1' || address.startsWith('127.')
+}
+
+/**
+ * Host headers the server answers to: ALLOWED_HOSTS, or else the host of
+ * PUBLIC_URL and the loopback names on the server port. A server listening
+ * beyond loopback, such as in a container, is reached under names it cannot
+ * know, so it answers to any host until ALLOWED_HOSTS is set.
+ */
+export function getAllowedHosts(): string[] {
+    if (config.allowedHosts.length > 0) {
+        return config.allowedHosts.map(host => host.toLowerCase())
+    }
+
+    if (!isLoopbackAddress(config.host)) {
+        return ['*']
+    }
+
+    return [
+        new URL(config.publicUrl).host,
+        ...LOOPBACK_HOSTS.map(host => `${host}:${config.serverPort}`)
+    ]
+}
+
+/**
+ * Protects against DNS rebinding: a web page can point its own domain at the
+ * server's address, and the browser then sends that domain as the Host header.
+ * Requests for any host that is not allowed are refused ("*" allows all).
+ */
+export function checkHost(req: Request, res: Response, next: NextFunction) {
+    const allowedHosts = getAllowedHosts()
+    const host = req.headers.host?.toLowerCase()
+
+    if (allowedHosts.includes('*') || (host !== undefined && allowedHosts.includes(host))) {
+        next()
+        return
+    }
+
+    logger.warn({ host, path: req.path, ip: req.ip }, 'Rejected request for a host that is not allowed')
+    res.status(403).json({ error: `Host ${host ?? '(none)'} is not allowed` })
+}
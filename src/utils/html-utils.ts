@@ -0,0 +1,56 @@
+import assert from 'assert'
+
+const HTML_ESCAPES: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;'
+}
+
+/**
+ * Escapes a value for use in HTML text or a quoted attribute.
+ */
+export function escapeHtml(value: string): string {
+    return value.replace(/[&<>"']/g, char => HTML_ESCAPES[char])
+}
+
+const HEX_COLOR_REGEX = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i
+const NAMED_COLOR_REGEX = /^[a-z]+$/i
+const FUNCTION_COLOR_REGEX = /^(?:rgb|rgba|hsl|hsla|hwb|lab|lch|oklab|oklch)\(\s*[-+0-9.%\s,/a-z]*\)$/i
+
+/**
+ * Accepts hex, named and functional CSS colors and rejects anything else, so
+ * a color can never close a declaration or pull in a url().
+ */
+export function sanitizeCssColor(value: string): string {
+    const color = value.trim()
+    assert(
+        HEX_COLOR_REGEX.test(color) || NAMED_COLOR_REGEX.test(color) || FUNCTION_COLOR_REGEX.test(color),
+        `Invalid CSS color: ${value}`
+    )
+    assert(!/url|expression/i.test(color), `Invalid CSS color: ${value}`)
+    return color
+}
+
+/**
+ * Rejects values that could end a CSS declaration or the surrounding
+ * <style> element, such as a font family list that ends up in a stylesheet.
+ */
+export function assertSafeCssValue(value: string, name: string): string {
+    assert(!/[<>{};\\]|\/\*|url\s*\(|@import/i.test(value), `${name} contains characters that are not allowed in CSS: ${value}`)
+    return value
+}
+
+/**
+ * Checks a user supplied stylesheet: it may not close the <style> element it
+ * ends up in or load anything except data: URIs.
+ */
+export function assertSafeStylesheet(css: string, name: string): string {
+    assert(!css.includes('<'), `${name} must not contain '<'`)
+    // Escapes could spell out the checks below, e.g. \75 rl( for url(
+    assert(!css.includes('\\'), `${name} must not contain CSS escapes`)
+    assert(!/@import/i.test(css), `${name} must not use @import`)
+    assert(!/url\s*\(\s*(?!['"]?data:)/i.test(css), `${name} may only use data: URIs in url()`)
+    return css
+}
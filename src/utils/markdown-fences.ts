@@ -0,0 +1,76 @@
+export interface CodeFence {
+    language: string
+    code: string
+    // Offsets of the whole fence, including the opening and closing lines
+    start: number
+    end: number
+}
+
+const OPENING_FENCE_REGEX = /^( {0,3})(`{3,}|~{3,})[ \t]*([^\s`]*)[^`\n]*$/
+
+/**
+ * Finds fenced code blocks whose info string starts with one of `languages`.
+ * Follows the CommonMark rules for fences: up to three spaces of indent, a
+ * closing fence of the same character at least as long as the opening one,
+ * and an unclosed fence running to the end of the document.
+ */
+export function extractFences(markdown: string, languages: string[]): CodeFence[] {
+    const fences: CodeFence[] = []
+    const lines = markdown.split('\n')
+    let offset = 0
+    let open: { marker: string, language: string, start: number, contentStart: number } | null = null
+
+    for (const line of lines) {
+        const lineEnd = offset + line.length
+        const text = line.replace(/\r$/, '')
+
+        if (!open) {
+            const match = text.match(OPENING_FENCE_REGEX)
+            if (match) {
+                open = { marker: match[2], language: match[3].toLowerCase(), start: offset, contentStart: lineEnd + 1 }
+            }
+        } else {
+            const closing = text.match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/)
+            if (closing && closing[1][0] === open.marker[0] && closing[1].length >= open.marker.length) {
+                if (languages.includes(open.language)) {
+                    fences.push({
+                        language: open.language,
+                        code: markdown.slice(open.contentStart, Math.max(offset - 1, open.contentStart)),
+                        start: open.start,
+                        end: Math.min(lineEnd, markdown.length)
+                    })
+                }
+                open = null
+            }
+        }
+
+        offset = lineEnd + 1
+    }
+
+    if (open && languages.includes(open.language)) {
+        fences.push({
+            language: open.language,
+            code: markdown.slice(Math.min(open.contentStart, markdown.length)),
+            start: open.start,
+            end: markdown.length
+        })
+    }
+
+    return fences
+}
+
+/**
+ * Replaces each fence with the text returned for it. Fences must be in
+ * document order and must not overlap, as returned by `extractFences`.
+ */
+export function replaceFences(markdown: string, fences: CodeFence[], replacements: string[]): string {
+    let result = ''
+    let position = 0
+
+    fences.forEach((fence, index) => {
+        result += markdown.slice(position, fence.start) + replacements[index]
+        position = fence.end
+    })
+
+    return result + markdown.slice(position)
+}
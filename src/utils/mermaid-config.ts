@@ -0,0 +1,133 @@
+import { load } from 'js-yaml'
+import { z } from 'zod'
+import { MermaidConfigSchema } from '../types.js'
+import { FRONT_MATTER_REGEX } from './syntax-errors.js'
+
+export interface SanitizedMermaidConfig {
+    config: Record<string, unknown>
+    warnings: string[]
+}
+
+// Keys that have their own request option
+const DEDICATED_KEYS = ['theme', 'themeVariables', 'themeCSS', 'fontFamily', 'fontSize', 'darkMode', 'htmlLabels', 'maxTextSize']
+
+// Keys the server controls; Mermaid also ignores most of them in directives
+const RESERVED_KEYS = ['securityLevel', 'secure', 'startOnLoad', 'maxTextSize', 'maxEdges', 'dompurifyConfig', 'suppressErrorRendering', 'logLevel']
+
+const DIRECTIVE_REGEX = /%%\{\s*(?:init|initialize)\s*:\s*([\s\S]*?)\}%%/g
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+    while (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault || schema instanceof z.ZodNullable) {
+        schema = schema instanceof z.ZodDefault ? schema._def.innerType : schema.unwrap()
+    }
+    return schema
+}
+
+/**
+ * Copies `value`, leaving out keys the schema does not know and reporting
+ * them by their dotted path. Records are open and copied as they are.
+ */
+function dropUnknownKeys(schema: z.ZodTypeAny, value: unknown, path: string, unknownKeys: string[]): unknown {
+    const inner = unwrap(schema)
+    if (!(inner instanceof z.ZodObject) || value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return value
+    }
+
+    const shape = inner.shape as Record<string, z.ZodTypeAny>
+    const result: Record<string, unknown> = {}
+    for (const [key, child] of Object.entries(value)) {
+        const childPath = path ? `${path}.${key}` : key
+        if (key in shape) {
+            result[key] = dropUnknownKeys(shape[key], child, childPath, unknownKeys)
+        } else {
+            unknownKeys.push(childPath)
+        }
+    }
+    return result
+}
+
+/**
+ * Removes unknown and reserved keys from a request's `mermaidConfig`. Each
+ * removed key is reported as a warning rather than failing the render.
+ */
+export function sanitizeMermaidConfig(mermaidConfig?: Record<string, unknown>): SanitizedMermaidConfig {
+    const warnings: string[] = []
+    if (!mermaidConfig) {
+        return { config: {}, warnings }
+    }
+
+    const config: Record<string, unknown> = {}
+    const unknownKeys: string[] = []
+    for (const [key, value] of Object.entries(mermaidConfig)) {
+        if (DEDICATED_KEYS.includes(key)) {
+            warnings.push(`mermaidConfig.${key} was ignored, use the ${key} option instead`)
+        } else if (RESERVED_KEYS.includes(key)) {
+            warnings.push(`mermaidConfig.${key} was ignored, it is controlled by the server`)
+        } else if (key in MermaidConfigSchema.shape) {
+            config[key] = dropUnknownKeys(MermaidConfigSchema.shape[key as keyof typeof MermaidConfigSchema.shape], value, key, unknownKeys)
+        } else {
+            unknownKeys.push(key)
+        }
+    }
+
+    warnings.push(...unknownKeys.map(key => `Unknown Mermaid config key mermaidConfig.${key} was ignored`))
+    return { config, warnings }
+}
+
+/**
+ * Checks the config that the diagram sets itself, in front matter `config:`
+ * or `%%{init: ...}%%` directives, against the same schema. Mermaid applies
+ * that config on top of the request's, so nothing is removed; problems are
+ * only reported.
+ */
+export function checkEmbeddedConfig(code: string): string[] {
+    const warnings: string[] = []
+    const sources: Array<{ label: string, config: unknown }> = []
+
+    const frontMatter = code.replace(/\r\n?/g, '\n').match(FRONT_MATTER_REGEX)
+    if (frontMatter) {
+        try {
+            const parsed = load(frontMatter[1]) as { config?: unknown } | null
+            if (parsed && typeof parsed === 'object' && parsed.config !== undefined) {
+                sources.push({ label: 'front matter config', config: parsed.config })
+            }
+        } catch (error) {
+            warnings.push(`Front matter is not valid YAML: ${(error as Error).message.split('\n')[0]}`)
+        }
+    }
+
+    for (const match of code.matchAll(DIRECTIVE_REGEX)) {
+        try {
+            // Mermaid accepts single quoted strings in directives
+            sources.push({ label: '%%{init}%% directive', config: JSON.parse(match[1].trim().replace(/'/g, '"')) })
+        } catch {
+            warnings.push(`%%{init}%% directive is not valid JSON and is ignored by Mermaid: ${match[0].slice(0, 80)}`)
+        }
+    }
+
+    for (const { label, config } of sources) {
+        if (config === null || typeof config !== 'object' || Array.isArray(config)) {
+            warnings.push(`${label} must be an object`)
+            continue
+        }
+
+        const unknownKeys: string[] = []
+        for (const [key, value] of Object.entries(config)) {
+            if (RESERVED_KEYS.includes(key)) {
+                warnings.push(`${key} in ${label} is ignored`)
+            } else if (key in MermaidConfigSchema.shape) {
+                dropUnknownKeys(MermaidConfigSchema.shape[key as keyof typeof MermaidConfigSchema.shape], value, key, unknownKeys)
+            } else if (!DEDICATED_KEYS.includes(key)) {
+                unknownKeys.push(key)
+            }
+        }
+        warnings.push(...unknownKeys.map(key => `Unknown Mermaid config key ${key} in ${label}`))
+
+        const parsed = MermaidConfigSchema.safeParse(config)
+        if (!parsed.success) {
+            warnings.push(...parsed.error.issues.map(issue => `Invalid ${issue.path.join('.')} in ${label}: ${issue.message}`))
+        }
+    }
+
+    return warnings
+}
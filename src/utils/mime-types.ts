@@ -0,0 +1,24 @@
+const MIME_TYPES: Record<string, string> = {
+    svg: 'image/svg+xml',
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+    avif: 'image/avif',
+    pdf: 'application/pdf',
+    zip: 'application/zip',
+    html: 'text/html'
+}
+
+export function getMimeType(format: string): string {
+    return MIME_TYPES[format] || 'application/octet-stream'
+}
+
+// Formats MCP clients can show from an image content block
+export function isRasterFormat(format: string): boolean {
+    return ['png', 'jpg', 'jpeg', 'webp', 'avif'].includes(format)
+}
+
+export function isTextFormat(format: string): boolean {
+    return format === 'svg' || format === 'html'
+}
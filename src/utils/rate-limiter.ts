@@ -0,0 +1,77 @@
+import assert from 'assert'
+
+interface Window {
+    start: number
+    used: number
+}
+
+export interface RateLimitResult {
+    allowed: boolean
+    remaining: number
+    retryAfterSeconds: number
+}
+
+const PRUNE_THRESHOLD = 1000
+
+/**
+ * Fixed window counter per client. A limit of 0 disables the limiter.
+ */
+export class RateLimiter {
+    private readonly windows = new Map<string, Window>()
+
+    constructor(
+        private readonly limit: number,
+        private readonly windowMs: number
+    ) {
+        assert(limit >= 0, `Limit must not be negative, got: ${limit}`)
+        assert(windowMs > 0, `Window must be positive, got: ${windowMs}`)
+    }
+
+    get enabled(): boolean {
+        return this.limit > 0
+    }
+
+    private getWindow(clientId: string, now: number): Window {
+        const current = this.windows.get(clientId)
+        if (current && now - current.start < this.windowMs) {
+            return current
+        }
+
+        if (this.windows.size >= PRUNE_THRESHOLD) {
+            this.prune(now)
+        }
+
+        const window = { start: now, used: 0 }
+        this.windows.set(clientId, window)
+        return window
+    }
+
+    private prune(now: number) {
+        for (const [clientId, window] of this.windows) {
+            if (now - window.start >= this.windowMs) {
+                this.windows.delete(clientId)
+            }
+        }
+    }
+
+    /**
+     * Counts `cost` against the client's window, unless that would go over the
+     * limit, in which case nothing is counted.
+     */
+    consume(clientId: string, cost = 1): RateLimitResult {
+        if (!this.enabled) {
+            return { allowed: true, remaining: Infinity, retryAfterSeconds: 0 }
+        }
+
+        const now = Date.now()
+        const window = this.getWindow(clientId, now)
+        const retryAfterSeconds = Math.ceil((window.start + this.windowMs - now) / 1000)
+
+        if (window.used + cost > this.limit) {
+            return { allowed: false, remaining: this.limit - window.used, retryAfterSeconds }
+        }
+
+        window.used += cost
+        return { allowed: true, remaining: this.limit - window.used, retryAfterSeconds }
+    }
+}
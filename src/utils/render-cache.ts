@@ -0,0 +1,42 @@
+import { createHash } from 'crypto'
+
+// Options that only choose where a result goes, not what gets rendered
+const DESTINATION_OPTIONS = new Set(['output', 'filePath', 'createDirs', 'overwrite', 'cache'])
+
+function normalizeValue(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(normalizeValue)
+    }
+
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.entries(value as Record<string, unknown>)
+                .filter(([, entry]) => entry !== undefined)
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([key, entry]) => [key, normalizeValue(entry)])
+        )
+    }
+
+    return value
+}
+
+/**
+ * Drops destination-only and undefined options and sorts keys, so equivalent
+ * requests serialize identically.
+ */
+export function normalizeRenderOptions(options: Record<string, unknown>): Record<string, unknown> {
+    const renderOptions = Object.fromEntries(
+        Object.entries(options).filter(([key]) => !DESTINATION_OPTIONS.has(key))
+    )
+    return normalizeValue(renderOptions) as Record<string, unknown>
+}
+
+/**
+ * Keys are per client, so one client's cached renders never turn up in
+ * another client's resources.
+ */
+export function computeCacheKey(tool: string, source: string, options: Record<string, unknown>, clientId?: string): string {
+    return createHash('sha256')
+        .update(JSON.stringify({ tool, source, options: normalizeRenderOptions(options), clientId }))
+        .digest('hex')
+}
@@ -0,0 +1,65 @@
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js'
+import { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js'
+import { logger } from '../config.js'
+
+/**
+ * Stages of a single render, in order. Renders that need no browser skip the
+ * first two.
+ */
+export const RENDER_STAGES = ['browser_ready', 'library_loaded', 'rendered', 'exported', 'saved'] as const
+
+export type RenderStage = typeof RENDER_STAGES[number]
+
+/**
+ * Per-request state handed from the MCP handler down to the render services:
+ * the request's abort signal, a progress callback and the client the renders
+ * are stored for.
+ */
+export interface RenderContext {
+    signal?: AbortSignal
+    // Name of the caller's API key, unset without authentication
+    clientId?: string
+    onProgress?: (progress: number, total: number, message: string) => void
+}
+
+export class RenderCancelledError extends Error {
+    constructor() {
+        super('Render was cancelled')
+    }
+}
+
+export function reportStage(context: RenderContext | undefined, stage: RenderStage) {
+    context?.onProgress?.(RENDER_STAGES.indexOf(stage) + 1, RENDER_STAGES.length, stage)
+}
+
+export function throwIfCancelled(context: RenderContext | undefined) {
+    if (context?.signal?.aborted) {
+        throw new RenderCancelledError()
+    }
+}
+
+/**
+ * Builds the context for a tool call. Progress notifications are only sent
+ * when the client asked for them with a progress token.
+ */
+export function createRenderContext(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): RenderContext {
+    const progressToken = extra._meta?.progressToken
+    const clientId = extra.authInfo?.clientId
+    if (progressToken === undefined) {
+        return { signal: extra.signal, clientId }
+    }
+
+    return {
+        signal: extra.signal,
+        clientId,
+        onProgress: (progress, total, message) => {
+            if (extra.signal.aborted) {
+                return
+            }
+            extra.sendNotification({
+                method: 'notifications/progress',
+                params: { progressToken, progress, total, message }
+            }).catch(error => logger.warn({ error: (error as Error).message }, 'Failed to send progress notification'))
+        }
+    }
+}
@@ -0,0 +1,306 @@
+import { EventEmitter } from 'events'
+import { readFile, readdir, rename, stat, unlink, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { createHash } from 'crypto'
+import assert from 'assert'
+import { FileManager } from './file-manager.js'
+import { getMimeType } from './mime-types.js'
+import { config, logger } from '../config.js'
+
+export interface RenderRecord {
+    id: string
+    uri: string
+    filename: string
+    format: string
+    mimeType: string
+    tool: string
+    source: string
+    sourceHash: string
+    options: Record<string, unknown>
+    size: number
+    dimensions?: {
+        width: number
+        height: number
+    }
+    cacheKey?: string
+    // Client that rendered it, only that client can list and read it
+    clientId?: string
+    createdAt: string
+    // Creation or the last cache hit, renders expire by this
+    lastUsedAt: string
+}
+
+export interface RegisterRenderParams {
+    filename: string
+    format: string
+    tool: string
+    source: string
+    options?: Record<string, unknown>
+    dimensions?: {
+        width: number
+        height: number
+    }
+    cacheKey?: string
+    clientId?: string
+}
+
+// A dotfile, so the static route refuses to serve the index or its temp file
+const INDEX_FILENAME = '.index.json'
+// Where the index was kept before, moved to INDEX_FILENAME on load
+const LEGACY_INDEX_FILENAME = 'index.json'
+
+const records = new Map<string, RenderRecord>()
+const events = new EventEmitter()
+// One listener per connected MCP server, so there is no sensible fixed cap
+events.setMaxListeners(0)
+
+let persistQueue: Promise<void> = Promise.resolve()
+let cleanupTimer: NodeJS.Timeout | null = null
+
+function getIndexPath(): string {
+    return join(FileManager.getTempDir(), INDEX_FILENAME)
+}
+
+/**
+ * Keeps the metadata index of stored renders next to the files themselves, so
+ * links and resources survive a restart. Entries expire by age and by total
+ * store size in a background sweep.
+ */
+export class RenderStore {
+    static readonly URI_SCHEME = 'diagram://'
+
+    static async initialize() {
+        await FileManager.ensureTempDir()
+
+        if (config.purgeOnStartup) {
+            await this.purge()
+        } else {
+            await this.load()
+            await this.prune()
+        }
+
+        this.startCleanup()
+    }
+
+    static async load() {
+        records.clear()
+
+        let entries: RenderRecord[] = []
+        const legacyPath = join(FileManager.getTempDir(), LEGACY_INDEX_FILENAME)
+        try {
+            const indexPath = await stat(getIndexPath()).then(() => getIndexPath(), () => legacyPath)
+            entries = JSON.parse(await readFile(indexPath, 'utf-8')) as RenderRecord[]
+            assert(Array.isArray(entries), 'Render index must be an array')
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                logger.warn({ error: (error as Error).message }, 'Render index is unreadable, starting with an empty store')
+            }
+            entries = []
+        }
+
+        for (const entry of entries) {
+            try {
+                await stat(join(FileManager.getTempDir(), entry.filename))
+                // Indexes written before lastUsedAt existed
+                records.set(entry.id, { ...entry, lastUsedAt: entry.lastUsedAt ?? entry.createdAt })
+            } catch {
+                logger.debug({ id: entry.id }, 'Dropping index entry for missing file')
+            }
+        }
+
+        logger.info({ renders: records.size }, 'Render store loaded')
+        await this.persist()
+        await unlink(legacyPath).catch(() => undefined)
+        await unlink(`${legacyPath}.tmp`).catch(() => undefined)
+    }
+
+    private static persist(): Promise<void> {
+        const snapshot = JSON.stringify([...records.values()], null, 2)
+        const indexPath = getIndexPath()
+
+        // Writes go through a queue and a temp file so the index is never half written
+        persistQueue = persistQueue
+            .catch(() => undefined)
+            .then(async () => {
+                const tempPath = `${indexPath}.tmp`
+                await writeFile(tempPath, snapshot)
+                await rename(tempPath, indexPath)
+            })
+
+        return persistQueue
+    }
+
+    static async register(params: RegisterRenderParams): Promise<RenderRecord> {
+        assert(params.filename, 'Filename is required')
+        assert(params.format, 'Format is required')
+
+        const { size } = await stat(join(FileManager.getTempDir(), params.filename))
+        const id = params.filename.replace(/\.[^.]+$/, '')
+        const createdAt = new Date().toISOString()
+        const record: RenderRecord = {
+            id,
+            uri: `${this.URI_SCHEME}${id}`,
+            filename: params.filename,
+            format: params.format,
+            mimeType: getMimeType(params.format),
+            tool: params.tool,
+            source: params.source,
+            sourceHash: createHash('sha256').update(params.source).digest('hex'),
+            options: params.options || {},
+            size,
+            dimensions: params.dimensions,
+            cacheKey: params.cacheKey,
+            clientId: params.clientId,
+            createdAt,
+            lastUsedAt: createdAt
+        }
+
+        records.set(id, record)
+        await this.persist()
+        events.emit('registered', record)
+        return record
+    }
+
+    static get(id: string): RenderRecord | undefined {
+        return records.get(id)
+    }
+
+    /**
+     * A hit counts as a fresh use: renders unused for longer than the TTL are
+     * skipped, and a hit updates `lastUsedAt` so renders in use are pruned last.
+     */
+    static async findByCacheKey(cacheKey: string, now: number = Date.now()): Promise<RenderRecord | undefined> {
+        const ttlMs = config.renderTtlSeconds * 1000
+        const record = this.list().find(record =>
+            record.cacheKey === cacheKey && (ttlMs <= 0 || now - Date.parse(record.lastUsedAt) <= ttlMs)
+        )
+        if (!record) {
+            return undefined
+        }
+
+        record.lastUsedAt = new Date(now).toISOString()
+        await this.persist()
+        return record
+    }
+
+    static list(): RenderRecord[] {
+        return [...records.values()]
+    }
+
+    /**
+     * Renders stored for `clientId`. Without authentication every render has
+     * no client and all of them are listed.
+     */
+    static listForClient(clientId: string | undefined): RenderRecord[] {
+        return this.list().filter(record => record.clientId === clientId)
+    }
+
+    static async readContent(id: string): Promise<Buffer> {
+        const record = records.get(id)
+        assert(record, `Unknown render: ${id}`)
+        return readFile(join(FileManager.getTempDir(), record.filename))
+    }
+
+    private static async remove(record: RenderRecord) {
+        records.delete(record.id)
+        try {
+            await unlink(join(FileManager.getTempDir(), record.filename))
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                logger.warn({ filename: record.filename, error: (error as Error).message }, 'Failed to delete expired render')
+            }
+        }
+    }
+
+    /**
+     * Deletes renders unused for longer than the TTL, then the least recently
+     * used renders until the store fits the size limit. Files in the static dir that are not in the
+     * index only expire by age. Returns the number of files removed.
+     */
+    static async prune(now: number = Date.now()): Promise<number> {
+        let removed = 0
+        const ttlMs = config.renderTtlSeconds * 1000
+
+        if (ttlMs > 0) {
+            for (const record of this.list()) {
+                if (now - Date.parse(record.lastUsedAt) > ttlMs) {
+                    await this.remove(record)
+                    removed++
+                }
+            }
+
+            const indexed = new Set(this.list().map(record => record.filename))
+            for (const filename of await readdir(FileManager.getTempDir())) {
+                if (filename.startsWith(INDEX_FILENAME) || filename.startsWith(LEGACY_INDEX_FILENAME) || indexed.has(filename)) {
+                    continue
+                }
+
+                const filePath = join(FileManager.getTempDir(), filename)
+                try {
+                    const stats = await stat(filePath)
+                    if (stats.isFile() && now - stats.mtimeMs > ttlMs) {
+                        await unlink(filePath)
+                        removed++
+                    }
+                } catch (error) {
+                    logger.warn({ filename, error: (error as Error).message }, 'Failed to expire untracked file')
+                }
+            }
+        }
+
+        if (config.maxStoreBytes > 0) {
+            const byAge = this.list().sort((a, b) => Date.parse(a.lastUsedAt) - Date.parse(b.lastUsedAt))
+            let totalBytes = byAge.reduce((total, record) => total + record.size, 0)
+
+            while (totalBytes > config.maxStoreBytes && byAge.length > 0) {
+                const oldest = byAge.shift()!
+                await this.remove(oldest)
+                totalBytes -= oldest.size
+                removed++
+            }
+        }
+
+        if (removed > 0) {
+            await this.persist()
+            logger.info({ removed, renders: records.size }, 'Expired renders removed from store')
+        }
+
+        return removed
+    }
+
+    static async purge(): Promise<number> {
+        const deleted = await FileManager.cleanupTempDir()
+        records.clear()
+        await this.persist()
+        return deleted
+    }
+
+    static startCleanup() {
+        if (cleanupTimer || config.cleanupIntervalSeconds <= 0) {
+            return
+        }
+
+        cleanupTimer = setInterval(() => {
+            this.prune().catch(error => logger.warn({ error: (error as Error).message }, 'Render store cleanup failed'))
+        }, config.cleanupIntervalSeconds * 1000)
+        cleanupTimer.unref()
+    }
+
+    static stopCleanup() {
+        if (cleanupTimer) {
+            clearInterval(cleanupTimer)
+            cleanupTimer = null
+        }
+    }
+
+    /**
+     * Subscribes to newly registered renders. Returns a function that removes
+     * the listener again.
+     */
+    static onRegistered(listener: (record: RenderRecord) => void): () => void {
+        events.on('registered', listener)
+        return () => {
+            events.off('registered', listener)
+        }
+    }
+}
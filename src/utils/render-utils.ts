@@ -1,9 +1,10 @@
-import { writeFile } from 'fs/promises'
 import { join } from 'path'
-import { z } from 'zod'
 import assert from 'assert'
 import { DiagramResult, OutputType } from '../types.js'
-import { FileManager } from './file-manager.js'
+import { FileDestination, FileManager } from './file-manager.js'
+import { RenderRecord, RenderStore } from './render-store.js'
+import { getMimeType, isTextFormat } from './mime-types.js'
+import { getSignatureQuery } from './signed-url.js'
 import { config, logger } from '../config.js'
 
 export interface RenderParams {
@@ -16,57 +17,82 @@ export interface RenderParams {
         width: number
         height: number
     }
+    tool: string
+    source: string
+    options?: Record<string, unknown>
+    cacheKey?: string
+    clientId?: string
+    destination?: FileDestination
+}
+
+function toFileData(data: string, format: string): Buffer {
+    const fileData = isTextFormat(format) ? Buffer.from(data, 'utf-8') : Buffer.from(data, 'base64')
+    assert(fileData.length > 0, 'Rendered data must not be empty')
+    return fileData
+}
+
+function getStaticUrl(filename: string): string {
+    return `${config.publicUrl}/static/${filename}${getSignatureQuery(filename)}`
+}
+
+function getFileBaseName(params: RenderParams): string | undefined {
+    // Cached renders get a name derived from the key, so their URL is stable
+    return params.cacheKey ? params.cacheKey.slice(0, 32) : undefined
+}
+
+async function registerRender(params: RenderParams, filename: string): Promise<string> {
+    const record = await RenderStore.register({
+        filename,
+        format: params.format,
+        tool: params.tool,
+        source: params.source,
+        options: params.options,
+        dimensions: params.size,
+        cacheKey: params.cacheKey,
+        clientId: params.clientId
+    })
+    return record.uri
 }
 
 export async function handleRenderOutput(params: RenderParams): Promise<DiagramResult> {
-    const { data, format, output = 'link', width, height, size } = params
+    const { data, format, output = 'link', size, destination } = params
 
     assert(data, 'Data is required')
     assert(format, 'Format is required')
-    assert(['link', 'filepath', 'raw'].includes(output), `Invalid output type: ${output}`)
+    assert(['link', 'filepath', 'raw', 'image'].includes(output), `Invalid output type: ${output}`)
+    // Checked before anything is stored, a rejected render must not be cached
+    if (format === 'svg') {
+        assert(data.startsWith('<svg'), 'SVG data must start with <svg')
+    }
 
-    if (output === 'filepath') {
-        assert(format, 'Format is required for filepath output')
+    const fileData = toFileData(data, format)
 
-        const filename = await FileManager.saveTempFile(data, format)
-        assert(filename, 'FileManager.saveTempFile must return a filename')
+    // Every render is kept in the store, even when it is also written to filePath
+    const filename = await FileManager.saveTempFile(fileData, format, getFileBaseName(params))
+    assert(filename, 'FileManager.saveTempFile must return a filename')
+    const resourceUri = await registerRender(params, filename)
 
-        const filePath = join(FileManager.getTempDir(), filename)
-        assert(filePath, 'File path must be generated')
+    const filePath = destination
+        ? await FileManager.saveToPath(fileData, format, destination)
+        : undefined
 
-        if (format === 'svg' || format === 'pdf') {
-            await writeFile(filePath, data)
-        } else {
-            const fileData = Buffer.from(data, 'base64')
-            assert(fileData.length > 0, 'Base64 data must not be empty')
-            await writeFile(filePath, fileData)
-        }
+    if (output === 'filepath') {
+        const outputPath = filePath || join(FileManager.getTempDir(), filename)
+        assert(outputPath, 'File path must be generated')
 
-        logger.info({ format, output_type: 'filepath', filePath }, 'Chart rendered successfully - filepath output')
+        logger.info({ format, output_type: 'filepath', filePath: outputPath }, 'Chart rendered successfully - filepath output')
         return {
             success: true,
-            data: filePath,
+            data: outputPath,
             format,
             size,
-            output_type: 'filepath'
-        }
-    } else if (output === 'link' && (format === 'png' || format === 'jpg' || format === 'pdf' || format === 'svg')) {
-        let fileData: string | Buffer = data
-        assert(fileData, 'File data is required for link output')
-
-        if (format === 'png' || format === 'jpg' || format === 'pdf') {
-            fileData = Buffer.from(data, 'base64')
-            assert(fileData.length > 0, 'Base64 data must not be empty')
-        } else if (format === 'svg') {
-            assert(fileData.startsWith('<svg'), 'SVG data must start with <svg')
+            output_type: 'filepath',
+            file_path: filePath,
+            resource_uri: resourceUri
         }
-
-        const filename = await FileManager.saveTempFile(fileData, format)
-        assert(filename, 'FileManager.saveTempFile must return a filename')
-
-        const localhostUrl = `http://localhost:${config.serverPort}/static/${filename}`
-        assert(localhostUrl, 'Localhost URL must be generated')
-        assert(localhostUrl.startsWith('http://localhost:'), 'URL must be localhost')
+    } else if (output === 'link') {
+        const localhostUrl = getStaticUrl(filename)
+        assert(localhostUrl.startsWith(`${config.publicUrl}/static/`), 'URL must point to the static route')
 
         logger.info({ format, output_type: 'link', localhostUrl }, 'Chart rendered successfully - link output')
         return {
@@ -74,17 +100,81 @@ export async function handleRenderOutput(params: RenderParams): Promise<DiagramR
             data: localhostUrl,
             format,
             size,
-            output_type: 'link'
+            output_type: 'link',
+            file_path: filePath,
+            resource_uri: resourceUri
+        }
+    } else if (output === 'image') {
+        logger.info({ format, output_type: 'image' }, 'Chart rendered successfully - image output')
+        return {
+            success: true,
+            data: fileData.toString('base64'),
+            format,
+            size,
+            output_type: 'image',
+            mime_type: getMimeType(format),
+            file_path: filePath,
+            resource_uri: resourceUri
         }
     } else {
-        assert(data, 'Raw output requires data')
         logger.info({ format, output_type: 'raw' }, 'Chart rendered successfully - raw output')
         return {
             success: true,
             data,
             format,
             size,
-            output_type: 'raw'
+            output_type: 'raw',
+            file_path: filePath,
+            resource_uri: resourceUri
+        }
+    }
+}
+
+/**
+ * Answers a render request from an existing artifact in the render store
+ * instead of rendering again.
+ */
+export async function handleCachedOutput(
+    record: RenderRecord,
+    output: OutputType = 'link',
+    destination?: FileDestination
+): Promise<DiagramResult> {
+    assert(record, 'Cached record is required')
+    assert(['link', 'filepath', 'raw', 'image'].includes(output), `Invalid output type: ${output}`)
+
+    const result: DiagramResult = {
+        success: true,
+        format: record.format,
+        size: record.dimensions,
+        resource_uri: record.uri,
+        cache: 'hit'
+    }
+
+    if (destination) {
+        const content = await RenderStore.readContent(record.id)
+        result.file_path = await FileManager.saveToPath(content, record.format, destination)
+    }
+
+    if (output === 'filepath') {
+        result.data = result.file_path || join(FileManager.getTempDir(), record.filename)
+        result.output_type = 'filepath'
+    } else if (output === 'link') {
+        result.data = getStaticUrl(record.filename)
+        result.output_type = 'link'
+    } else {
+        const content = await RenderStore.readContent(record.id)
+        assert(content.length > 0, 'Cached file must not be empty')
+
+        if (output === 'image') {
+            result.data = content.toString('base64')
+            result.mime_type = record.mimeType
+            result.output_type = 'image'
+        } else {
+            result.data = isTextFormat(record.format) ? content.toString('utf-8') : content.toString('base64')
+            result.output_type = 'raw'
         }
     }
-} 
\ No newline at end of file
+
+    logger.info({ format: record.format, output_type: result.output_type, id: record.id }, 'Render served from cache')
+    return result
+}
@@ -0,0 +1,122 @@
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import assert from 'assert'
+import { logger } from '../config.js'
+
+export interface Session {
+    id: string
+    // API key name of the client that opened the session, if auth is on
+    clientId?: string
+    transport: StreamableHTTPServerTransport
+    createdAt: number
+    lastActivity: number
+    // Requests and SSE streams currently open on the session
+    activeRequests: number
+    close: () => Promise<void>
+}
+
+export interface SessionManagerOptions {
+    idleTimeoutMs: number
+    maxSessions: number
+}
+
+/**
+ * Tracks the open MCP sessions of the HTTP transport and closes the ones that
+ * have been idle for longer than the timeout. A session with an open request
+ * or SSE stream is never idle.
+ */
+export class SessionManager {
+    private readonly sessions = new Map<string, Session>()
+    private sweepTimer: NodeJS.Timeout | null = null
+
+    constructor(private readonly options: SessionManagerOptions) {
+        assert(options.idleTimeoutMs > 0, `idleTimeoutMs must be positive, got: ${options.idleTimeoutMs}`)
+        assert(options.maxSessions > 0, `maxSessions must be positive, got: ${options.maxSessions}`)
+    }
+
+    get size(): number {
+        return this.sessions.size
+    }
+
+    add(session: Session) {
+        this.sessions.set(session.id, session)
+        logger.info({ sessionId: session.id, clientId: session.clientId, sessions: this.sessions.size }, 'MCP session opened')
+    }
+
+    get(id: string): Session | undefined {
+        return this.sessions.get(id)
+    }
+
+    remove(id: string) {
+        if (this.sessions.delete(id)) {
+            logger.info({ sessionId: id, sessions: this.sessions.size }, 'MCP session closed')
+        }
+    }
+
+    /**
+     * Marks the session busy until `done` is called.
+     */
+    track(session: Session): () => void {
+        session.activeRequests++
+        session.lastActivity = Date.now()
+
+        let finished = false
+        return () => {
+            if (!finished) {
+                finished = true
+                session.activeRequests--
+                session.lastActivity = Date.now()
+            }
+        }
+    }
+
+    /**
+     * Whether a new session fits, after closing idle sessions if needed.
+     */
+    async hasCapacity(): Promise<boolean> {
+        if (this.sessions.size >= this.options.maxSessions) {
+            await this.evictIdle()
+        }
+        return this.sessions.size < this.options.maxSessions
+    }
+
+    async evictIdle() {
+        const now = Date.now()
+        const idle = [...this.sessions.values()].filter(session =>
+            session.activeRequests === 0 && now - session.lastActivity >= this.options.idleTimeoutMs)
+
+        for (const session of idle) {
+            logger.info({ sessionId: session.id, idleMs: now - session.lastActivity }, 'Evicting idle MCP session')
+            await this.closeSession(session)
+        }
+    }
+
+    private async closeSession(session: Session) {
+        this.sessions.delete(session.id)
+        try {
+            await session.close()
+        } catch (error) {
+            logger.warn({ sessionId: session.id, error: (error as Error).message }, 'Failed to close MCP session')
+        }
+    }
+
+    startSweep() {
+        if (this.sweepTimer) {
+            return
+        }
+
+        const intervalMs = Math.min(this.options.idleTimeoutMs, 60 * 1000)
+        this.sweepTimer = setInterval(() => {
+            this.evictIdle().catch(error => logger.warn({ error: (error as Error).message }, 'Idle session sweep failed'))
+        }, intervalMs)
+        this.sweepTimer.unref()
+    }
+
+    async closeAll() {
+        if (this.sweepTimer) {
+            clearInterval(this.sweepTimer)
+            this.sweepTimer = null
+        }
+
+        await Promise.all([...this.sessions.values()].map(session => this.closeSession(session)))
+    }
+}
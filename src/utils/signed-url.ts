@@ -0,0 +1,38 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { config } from '../config.js'
+
+function sign(filename: string, expires: number, secret: string): string {
+    return createHmac('sha256', secret).update(`${filename}:${expires}`).digest('base64url')
+}
+
+export function isSigningEnabled(): boolean {
+    return config.staticUrlSecret !== undefined
+}
+
+/**
+ * Query string that makes a /static link valid until the configured TTL has
+ * passed. Empty when no STATIC_URL_SECRET is set.
+ */
+export function getSignatureQuery(filename: string): string {
+    if (!config.staticUrlSecret) {
+        return ''
+    }
+
+    const expires = Math.floor(Date.now() / 1000) + config.staticUrlTtlSeconds
+    return `?expires=${expires}&signature=${sign(filename, expires, config.staticUrlSecret)}`
+}
+
+export function verifySignature(filename: string, expires: unknown, signature: unknown): boolean {
+    if (!config.staticUrlSecret || typeof expires !== 'string' || typeof signature !== 'string') {
+        return false
+    }
+
+    const expiresAt = Number(expires)
+    if (!Number.isInteger(expiresAt) || expiresAt < Date.now() / 1000) {
+        return false
+    }
+
+    const expected = Buffer.from(sign(filename, expiresAt, config.staticUrlSecret))
+    const actual = Buffer.from(signature)
+    return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
@@ -0,0 +1,133 @@
+import { MermaidSyntaxError } from '../types.js'
+
+/**
+ * Error details as they come out of the render page. Jison based diagrams
+ * (flowchart, sequence, class, ...) attach a `hash`; Langium based ones only
+ * carry the position inside the message.
+ */
+export interface RawParseError {
+    message: string
+    hash?: {
+        text?: string
+        token?: string
+        line?: number
+        loc?: {
+            first_line: number
+            first_column: number
+            last_line: number
+            last_column: number
+        }
+        expected?: string[]
+    }
+}
+
+export function buildSnippet(code: string, line: number, column?: number): string {
+    const lines = code.split(/\r?\n/)
+    const index = Math.min(Math.max(line - 1, 0), lines.length - 1)
+    const width = String(index + 2).length
+    const snippet: string[] = []
+
+    for (let current = Math.max(index - 1, 0); current <= Math.min(index + 1, lines.length - 1); current++) {
+        const marker = current === index ? '>' : ' '
+        snippet.push(`${marker} ${String(current + 1).padStart(width)} | ${lines[current]}`)
+        if (current === index && column !== undefined) {
+            snippet.push(`  ${' '.repeat(width)} | ${' '.repeat(Math.max(column - 1, 0))}^`)
+        }
+    }
+
+    return snippet.join('\n')
+}
+
+export const FRONT_MATTER_REGEX = /^-{3}\s*[\n\r](.*?)[\n\r]-{3}\s*[\n\r]+/s
+const DIRECTIVE_LINE_REGEX = /^\s*%%{.*}%%\s*$/
+const COMMENT_LINE_REGEX = /^\s*%%(?!{)[^\n]+/
+
+/**
+ * Mermaid strips front matter, directives and comment lines before parsing, so
+ * reported line numbers point into the stripped text. This replays the same
+ * stripping to map a parser line back to the line in the original source.
+ */
+export function mapParserLine(code: string, parserLine: number): number {
+    const normalized = code.replace(/\r\n?/g, '\n')
+    const frontMatter = normalized.match(FRONT_MATTER_REGEX)
+    const offset = frontMatter ? frontMatter[0].split('\n').length - 1 : 0
+    const lines = normalized.slice(frontMatter ? frontMatter[0].length : 0).split('\n')
+
+    const kept: number[] = []
+    let pendingBlank: number[] = []
+
+    lines.forEach((text, index) => {
+        const originalLine = index + offset + 1
+        if (COMMENT_LINE_REGEX.test(text)) {
+            // `^\s*%%` also swallows the blank lines in front of a comment
+            pendingBlank = []
+            return
+        }
+        if (text.trim().length === 0 || DIRECTIVE_LINE_REGEX.test(text)) {
+            pendingBlank.push(originalLine)
+            return
+        }
+        if (kept.length > 0) {
+            kept.push(...pendingBlank)
+        }
+        pendingBlank = []
+        kept.push(originalLine)
+    })
+    kept.push(...pendingBlank)
+
+    return kept[parserLine - 1] ?? parserLine
+}
+
+export function parseMermaidError(raw: RawParseError, code: string): MermaidSyntaxError {
+    const message = raw.message.trim()
+    const syntaxError: MermaidSyntaxError = { message }
+
+    if (raw.hash?.loc) {
+        syntaxError.line = mapParserLine(code, raw.hash.loc.first_line)
+        syntaxError.column = raw.hash.loc.first_column + 1
+    } else if (raw.hash?.line !== undefined) {
+        syntaxError.line = mapParserLine(code, raw.hash.line + 1)
+    } else {
+        const position = message.match(/line (\d+), column (\d+)/i)
+        if (position) {
+            syntaxError.line = mapParserLine(code, parseInt(position[1], 10))
+            syntaxError.column = parseInt(position[2], 10)
+        }
+    }
+
+    if (raw.hash?.expected && raw.hash.expected.length > 0) {
+        syntaxError.expected = raw.hash.expected.map(token => token.replace(/^'|'$/g, ''))
+    }
+
+    if (raw.hash?.token) {
+        syntaxError.token = raw.hash.token
+    }
+
+    if (syntaxError.line !== undefined) {
+        syntaxError.snippet = buildSnippet(code, syntaxError.line, syntaxError.column)
+    }
+
+    return syntaxError
+}
+
+const GRAPHVIZ_ERROR_REGEX = /syntax error in line (\d+)(?: near '(.*)')?/
+
+/**
+ * Graphviz only reports a line and the token it stopped at, as in
+ * "syntax error in line 3 near '->'".
+ */
+export function parseGraphvizError(message: string, code: string): MermaidSyntaxError {
+    const text = message.trim()
+    const match = text.match(GRAPHVIZ_ERROR_REGEX)
+    if (!match) {
+        return { message: text }
+    }
+
+    const line = Number(match[1])
+    return {
+        message: text,
+        line,
+        token: match[2],
+        snippet: buildSnippet(code, line)
+    }
+}
@@ -0,0 +1,17 @@
+/**
+ * Rejects with `message` when `promise` has not settled within `timeoutMs`.
+ * The timer is cleared as soon as the promise settles.
+ */
+export async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+    let timer: NodeJS.Timeout | undefined
+
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(message)), timeoutMs)
+    })
+
+    try {
+        return await Promise.race([promise, timeout])
+    } finally {
+        clearTimeout(timer)
+    }
+}
@@ -0,0 +1,42 @@
+import { z, ZodRawShape } from 'zod'
+import { ToolName } from '../config-file.js'
+import { config } from '../config.js'
+import { BatchJobSchema, RenderBatchRequestSchema, RenderMermaidRequestSchema, RenderPlotlyRequestSchema } from '../types.js'
+
+/**
+ * Wraps every field of a tool's input shape so that an option the call leaves
+ * out takes the tool's default from the config file before the field's own
+ * default applies. The defaults are looked up per call, so a reloaded config
+ * file takes effect at once.
+ */
+export function withToolDefaults<T extends ZodRawShape>(tool: ToolName, shape: T): T {
+    const wrapped = Object.fromEntries(Object.entries(shape).map(([key, field]) => [
+        key,
+        z.preprocess(value => {
+            if (value !== undefined) {
+                return value
+            }
+            const defaults = config.toolDefaults[tool] as Record<string, unknown> | undefined
+            return defaults?.[key]
+        }, field)
+    ]))
+
+    // Only parsing changes, the types stay those of `shape`
+    return wrapped as unknown as T
+}
+
+/**
+ * Wraps the options of every render_batch job with the defaults of the tool
+ * its `type` renders with, as render_mermaid and render_plotly apply them.
+ */
+export function withBatchJobDefaults(shape: typeof RenderBatchRequestSchema.shape): typeof RenderBatchRequestSchema.shape {
+    const [mermaidJob, plotlyJob] = BatchJobSchema.options
+    const jobSchema = z.discriminatedUnion('type', [
+        mermaidJob.extend(withToolDefaults('render_mermaid', RenderMermaidRequestSchema.shape)),
+        plotlyJob.extend(withToolDefaults('render_plotly', RenderPlotlyRequestSchema.shape))
+    ])
+
+    // Keeps the job count limits of the original array
+    const jobs = new z.ZodArray({ ...shape.jobs._def, type: jobSchema })
+    return { ...shape, jobs: jobs as unknown as typeof shape.jobs }
+}
@@ -0,0 +1,77 @@
+import { Request, Response } from 'express'
+import { describe, expect, it } from 'vitest'
+import { setupTestEnv } from './test-env.js'
+
+setupTestEnv('auth', { API_KEYS: 'ci:ci-token-0123456789,ops:ops-token-0123456789' })
+const { authenticate, getClientId, isAuthEnabled, requireAuth } = await import('../src/utils/auth.js')
+
+function request(headers: Record<string, string>): Request {
+    return { headers, path: '/mcp', ip: '127.0.0.1' } as unknown as Request
+}
+
+function response() {
+    const res = {
+        statusCode: 200,
+        headers: {} as Record<string, string>,
+        body: undefined as unknown,
+        set(name: string, value: string) {
+            res.headers[name] = value
+            return res
+        },
+        status(code: number) {
+            res.statusCode = code
+            return res
+        },
+        json(body: unknown) {
+            res.body = body
+            return res
+        }
+    }
+    return res
+}
+
+describe('authenticate', () => {
+    it('accepts a bearer token or an X-API-Key header', () => {
+        expect(isAuthEnabled()).toBe(true)
+        expect(authenticate(request({ authorization: 'Bearer ci-token-0123456789' }))?.clientId).toBe('ci')
+        expect(authenticate(request({ 'x-api-key': 'ops-token-0123456789' }))?.clientId).toBe('ops')
+    })
+
+    it('rejects unknown tokens and other authorization schemes', () => {
+        expect(authenticate(request({ authorization: 'Bearer ci-token-wrong' }))).toBeUndefined()
+        expect(authenticate(request({ authorization: 'Basic ci-token-0123456789' }))).toBeUndefined()
+        expect(authenticate(request({}))).toBeUndefined()
+    })
+})
+
+describe('requireAuth', () => {
+    it('passes a valid key on as the request auth', () => {
+        const req = request({ 'x-api-key': 'ci-token-0123456789' })
+        let called = false
+
+        requireAuth(req, response() as unknown as Response, () => {
+            called = true
+        })
+
+        expect(called).toBe(true)
+        expect(getClientId(req)).toBe('ci')
+    })
+
+    it('answers 401 with a JSON-RPC error without a valid key', () => {
+        const res = response()
+        let called = false
+
+        requireAuth(request({}), res as unknown as Response, () => {
+            called = true
+        })
+
+        expect(called).toBe(false)
+        expect(res.statusCode).toBe(401)
+        expect(res.headers['WWW-Authenticate']).toBe('Bearer')
+        expect(res.body).toMatchObject({ error: { code: -32001 } })
+    })
+
+    it('counts unauthenticated requests by address', () => {
+        expect(getClientId(request({}))).toBe('ip:127.0.0.1')
+    })
+})
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+import { MemoryEventStore } from '../src/utils/event-store.js'
+
+function message(id: number, text = ''): JSONRPCMessage {
+    return { jsonrpc: '2.0', id, result: { text } }
+}
+
+async function replay(store: MemoryEventStore, lastEventId: string) {
+    const sent: string[] = []
+    const streamId = await store.replayEventsAfter(lastEventId, {
+        send: async (eventId) => {
+            sent.push(eventId)
+        }
+    })
+    return { streamId, sent }
+}
+
+describe('MemoryEventStore', () => {
+    it('replays the events after the given one on the same stream', async () => {
+        const store = new MemoryEventStore({ maxEvents: 10, maxBytes: 1024 * 1024 })
+        const first = await store.storeEvent('a', message(1))
+        await store.storeEvent('b', message(2))
+        const third = await store.storeEvent('a', message(3))
+
+        expect(await replay(store, first)).toEqual({ streamId: 'a', sent: [third] })
+    })
+
+    it('caps the events of the whole session, not per stream', async () => {
+        const store = new MemoryEventStore({ maxEvents: 100, maxBytes: 1024 * 1024 })
+        // The SDK opens a new stream for every POST
+        for (let index = 0; index < 1000; index++) {
+            await store.storeEvent(`stream-${index}`, message(index))
+        }
+
+        expect(store.size.events).toBe(100)
+        expect(store.size.streams).toBe(100)
+    })
+
+    it('drops streams whose events were all evicted', async () => {
+        const store = new MemoryEventStore({ maxEvents: 2, maxBytes: 1024 * 1024 })
+        const oldest = await store.storeEvent('old', message(1))
+        await store.storeEvent('new', message(2))
+        await store.storeEvent('new', message(3))
+
+        expect(store.size.streams).toBe(1)
+        expect(await replay(store, oldest)).toEqual({ streamId: '', sent: [] })
+    })
+
+    it('caps the total size of the stored events', async () => {
+        const store = new MemoryEventStore({ maxEvents: 1000, maxBytes: 10 * 1024 })
+        for (let index = 0; index < 20; index++) {
+            await store.storeEvent(`stream-${index}`, message(index, 'x'.repeat(1024)))
+        }
+
+        expect(store.size.bytes).toBeLessThanOrEqual(10 * 1024)
+        expect(store.size.events).toBeLessThan(10)
+        expect(store.size.events).toBeGreaterThan(0)
+    })
+
+    it('does not keep an event larger than the size limit', async () => {
+        const store = new MemoryEventStore({ maxEvents: 10, maxBytes: 100 })
+        const eventId = await store.storeEvent('a', message(1, 'x'.repeat(1000)))
+
+        expect(store.size).toEqual({ events: 0, streams: 0, bytes: 0 })
+        expect(await replay(store, eventId)).toEqual({ streamId: '', sent: [] })
+    })
+})
@@ -0,0 +1,106 @@
+import { existsSync, mkdirSync, readFileSync, symlinkSync } from 'fs'
+import { join } from 'path'
+import { afterEach, describe, expect, it } from 'vitest'
+import { setupTestEnv } from './test-env.js'
+
+// The store lies outside the only allowed dir
+const { root, staticDir } = setupTestEnv('files')
+const allowedDir = join(root, 'allowed')
+const outsideDir = join(root, 'outside')
+mkdirSync(allowedDir)
+mkdirSync(outsideDir)
+process.env.ALLOWED_DIRS = allowedDir
+const { config } = await import('../src/config.js')
+const { FileManager } = await import('../src/utils/file-manager.js')
+
+afterEach(() => {
+    config.allowedDirs = [allowedDir]
+})
+
+const data = Buffer.from('<svg></svg>')
+
+describe('FileManager.saveTempFile', () => {
+    it('stores renders in the static dir even when it is not an allowed dir', async () => {
+        const filename = await FileManager.saveTempFile(data, 'svg')
+
+        expect(readFileSync(join(staticDir, filename), 'utf-8')).toBe('<svg></svg>')
+    })
+
+    it('rejects base names that could leave the static dir', async () => {
+        await expect(FileManager.saveTempFile(data, 'svg', '../escape')).rejects.toThrow('Invalid file base name')
+    })
+})
+
+describe('FileManager.validateAllowedPath', () => {
+    it('accepts paths inside an allowed dir, even ones that do not exist yet', () => {
+        expect(FileManager.validateAllowedPath(join(allowedDir, 'chart.svg'))).toBe(true)
+        expect(FileManager.validateAllowedPath(join(allowedDir, 'new', 'chart.svg'))).toBe(true)
+    })
+
+    it('rejects paths outside the allowed dirs', () => {
+        expect(FileManager.validateAllowedPath(join(outsideDir, 'chart.svg'))).toBe(false)
+        expect(FileManager.validateAllowedPath(`${allowedDir}-sibling/chart.svg`)).toBe(false)
+    })
+
+    it('rejects traversal out of an allowed dir', () => {
+        expect(FileManager.validateAllowedPath(join(allowedDir, '..', 'outside', 'chart.svg'))).toBe(false)
+        expect(FileManager.validateAllowedPath(`${allowedDir}/../outside/chart.svg`)).toBe(false)
+    })
+
+    it('rejects every path when no allowed dirs are set', () => {
+        config.allowedDirs = []
+
+        expect(FileManager.validateAllowedPath(join(allowedDir, 'chart.svg'))).toBe(false)
+        expect(FileManager.validateAllowedPath(join(outsideDir, 'chart.svg'))).toBe(false)
+    })
+
+    it('rejects symlinks that point out of an allowed dir', () => {
+        symlinkSync(outsideDir, join(allowedDir, 'link'))
+
+        expect(FileManager.validateAllowedPath(join(allowedDir, 'link', 'chart.svg'))).toBe(false)
+    })
+})
+
+describe('FileManager.saveToPath', () => {
+    it('adds the extension of the format', async () => {
+        const filePath = await FileManager.saveToPath(data, 'svg', { filePath: join(allowedDir, 'named') })
+
+        expect(filePath).toBe(join(allowedDir, 'named.svg'))
+        expect(readFileSync(filePath, 'utf-8')).toBe('<svg></svg>')
+    })
+
+    it('refuses paths outside the allowed dirs', async () => {
+        const filePath = join(outsideDir, 'chart.svg')
+
+        await expect(FileManager.saveToPath(data, 'svg', { filePath })).rejects.toThrow('is not in allowed directories')
+        expect(existsSync(filePath)).toBe(false)
+    })
+
+    it('refuses to write when no allowed dirs are set', async () => {
+        config.allowedDirs = []
+        const filePath = join(outsideDir, 'unset.svg')
+
+        await expect(FileManager.saveToPath(data, 'svg', { filePath, overwrite: true })).rejects.toThrow('set ALLOWED_DIRS to enable it')
+        expect(existsSync(filePath)).toBe(false)
+    })
+
+    it('only replaces an existing file with overwrite', async () => {
+        const filePath = join(allowedDir, 'existing.svg')
+        await FileManager.saveToPath(data, 'svg', { filePath })
+
+        await expect(FileManager.saveToPath(Buffer.from('<svg>new</svg>'), 'svg', { filePath })).rejects.toThrow('already exists')
+        expect(readFileSync(filePath, 'utf-8')).toBe('<svg></svg>')
+
+        await FileManager.saveToPath(Buffer.from('<svg>new</svg>'), 'svg', { filePath, overwrite: true })
+        expect(readFileSync(filePath, 'utf-8')).toBe('<svg>new</svg>')
+    })
+
+    it('only creates missing directories with createDirs', async () => {
+        const filePath = join(allowedDir, 'nested', 'deeper', 'chart.svg')
+
+        await expect(FileManager.saveToPath(data, 'svg', { filePath })).rejects.toThrow('set createDirs to create it')
+
+        await FileManager.saveToPath(data, 'svg', { filePath, createDirs: true })
+        expect(existsSync(filePath)).toBe(true)
+    })
+})
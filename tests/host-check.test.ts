@@ -0,0 +1,78 @@
+import { Request, Response } from 'express'
+import { afterEach, describe, expect, it } from 'vitest'
+import { setupTestEnv } from './test-env.js'
+
+setupTestEnv('host', { HOST: '127.0.0.1', SERVER_PORT: '8099', PUBLIC_URL: 'https://diagrams.example.com' })
+const { config } = await import('../src/config.js')
+const { checkHost } = await import('../src/utils/host-check.js')
+
+afterEach(() => {
+    config.allowedHosts = []
+    config.host = '127.0.0.1'
+})
+
+function request(host?: string): Request {
+    return { headers: host === undefined ? {} : { host }, path: '/mcp', ip: '127.0.0.1' } as unknown as Request
+}
+
+function response() {
+    const res = {
+        statusCode: 200,
+        body: undefined as unknown,
+        status(code: number) {
+            res.statusCode = code
+            return res
+        },
+        json(body: unknown) {
+            res.body = body
+            return res
+        }
+    }
+    return res
+}
+
+function isAllowed(host?: string): boolean {
+    const res = response()
+    let called = false
+    checkHost(request(host), res as unknown as Response, () => {
+        called = true
+    })
+    expect(res.statusCode).toBe(called ? 200 : 403)
+    return called
+}
+
+describe('checkHost', () => {
+    it('allows the public URL host and loopback names on the server port', () => {
+        expect(isAllowed('diagrams.example.com')).toBe(true)
+        expect(isAllowed('localhost:8099')).toBe(true)
+        expect(isAllowed('127.0.0.1:8099')).toBe(true)
+        expect(isAllowed('[::1]:8099')).toBe(true)
+    })
+
+    it('refuses other hosts and requests without a host', () => {
+        expect(isAllowed('attacker.example.com')).toBe(false)
+        expect(isAllowed('localhost:3000')).toBe(false)
+        expect(isAllowed()).toBe(false)
+    })
+
+    it('only allows the configured hosts when ALLOWED_HOSTS is set', () => {
+        config.allowedHosts = ['diagram-mcp:8099']
+
+        expect(isAllowed('Diagram-MCP:8099')).toBe(true)
+        expect(isAllowed('localhost:8099')).toBe(false)
+    })
+
+    it('allows any host with *', () => {
+        config.allowedHosts = ['*']
+
+        expect(isAllowed('anything.example.com')).toBe(true)
+    })
+
+    it('allows any host when listening beyond loopback without ALLOWED_HOSTS', () => {
+        config.host = '0.0.0.0'
+        expect(isAllowed('10.0.0.5:8099')).toBe(true)
+
+        config.allowedHosts = ['diagram-mcp:8099']
+        expect(isAllowed('10.0.0.5:8099')).toBe(false)
+    })
+})
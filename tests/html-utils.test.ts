@@ -0,0 +1,183 @@
+import { createServer } from 'http'
+import { AddressInfo } from 'net'
+import { afterAll, afterEach, describe, expect, it } from 'vitest'
+import { assertSafeCssValue, assertSafeStylesheet, escapeHtml, sanitizeCssColor } from '../src/utils/html-utils.js'
+import { setupTestEnv } from './test-env.js'
+
+setupTestEnv('html', { CHROME_NO_SANDBOX: 'true', MERMAID_SECURITY_LEVEL: 'strict' })
+const { browserPool } = await import('../src/services/browser-pool.js')
+const { MermaidRenderer } = await import('../src/services/renderers/mermaid-renderer.js')
+const { ThemeManager } = await import('../src/services/theme-manager.js')
+const { RenderMermaidRequestSchema } = await import('../src/types.js')
+
+// Only runs where Chromium can start
+const browserAvailable = await browserPool.withPage('mermaid', async () => true).catch(() => false)
+
+// Records every request that reaches it, none should
+const canaryHits: string[] = []
+const canary = createServer((req, res) => {
+    canaryHits.push(req.url ?? '')
+    res.end()
+})
+await new Promise<void>(resolve => canary.listen(0, '127.0.0.1', resolve))
+const canaryUrl = `http://127.0.0.1:${(canary.address() as AddressInfo).port}`
+
+afterAll(async () => {
+    await browserPool.close()
+    await new Promise(resolve => canary.close(resolve))
+})
+
+describe('escapeHtml', () => {
+    it('escapes markup and quotes', () => {
+        expect(escapeHtml('<script>alert("x")</script>')).toBe('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;')
+        expect(escapeHtml(`' onerror='alert(1)`)).toBe('&#39; onerror=&#39;alert(1)')
+        expect(escapeHtml('graph TD; A-->B')).toBe('graph TD; A--&gt;B')
+    })
+
+    it('escapes ampersands first so entities are not double decoded', () => {
+        expect(escapeHtml('&lt;')).toBe('&amp;lt;')
+    })
+
+    it('leaves plain text untouched', () => {
+        expect(escapeHtml('Sales 2024 (Q1/Q2)')).toBe('Sales 2024 (Q1/Q2)')
+    })
+})
+
+describe('sanitizeCssColor', () => {
+    it('accepts hex, named and functional colors', () => {
+        expect(sanitizeCssColor('#fff')).toBe('#fff')
+        expect(sanitizeCssColor('#1a2b3c80')).toBe('#1a2b3c80')
+        expect(sanitizeCssColor(' transparent ')).toBe('transparent')
+        expect(sanitizeCssColor('rgba(0, 0, 0, 0.5)')).toBe('rgba(0, 0, 0, 0.5)')
+        expect(sanitizeCssColor('hsl(120deg 50% 50% / 20%)')).toBe('hsl(120deg 50% 50% / 20%)')
+    })
+
+    it('rejects attempts to break out of the declaration', () => {
+        expect(() => sanitizeCssColor('red; } body { display: none')).toThrow('Invalid CSS color')
+        expect(() => sanitizeCssColor('red</style><script>alert(1)</script>')).toThrow('Invalid CSS color')
+        expect(() => sanitizeCssColor('#fff;background-image:url(http://evil)')).toThrow('Invalid CSS color')
+    })
+
+    it('rejects urls and expressions', () => {
+        expect(() => sanitizeCssColor('url(http://example.com/x.png)')).toThrow('Invalid CSS color')
+        expect(() => sanitizeCssColor('expression(alert(1))')).toThrow('Invalid CSS color')
+    })
+})
+
+describe('assertSafeCssValue', () => {
+    it('accepts font family lists', () => {
+        expect(assertSafeCssValue('"Open Sans", Arial, sans-serif', 'fontFamily')).toBe('"Open Sans", Arial, sans-serif')
+    })
+
+    it('rejects values that can close a rule or the style element', () => {
+        expect(() => assertSafeCssValue('Arial; } svg { display: none', 'fontFamily')).toThrow('fontFamily')
+        expect(() => assertSafeCssValue('Arial</style><script>alert(1)</script>', 'fontFamily')).toThrow('fontFamily')
+        expect(() => assertSafeCssValue('Arial, url(http://evil)', 'fontFamily')).toThrow('fontFamily')
+        expect(() => assertSafeCssValue('@import "http://evil"', 'fontFamily')).toThrow('fontFamily')
+    })
+})
+
+describe('assertSafeStylesheet', () => {
+    it('accepts rules and data URIs', () => {
+        const css = '.node rect { fill: #ff6600; } @font-face { font-family: "Brand"; src: url(data:font/woff2;base64,AAAA) }'
+        expect(assertSafeStylesheet(css, 'themeCSS')).toBe(css)
+    })
+
+    it('rejects closing the style element', () => {
+        expect(() => assertSafeStylesheet('.a { fill: red } </style><script>alert(1)</script>', 'themeCSS')).toThrow("must not contain '<'")
+    })
+
+    it('rejects remote resources', () => {
+        expect(() => assertSafeStylesheet('@import "https://example.com/a.css";', 'themeCSS')).toThrow('@import')
+        expect(() => assertSafeStylesheet('.a { background: url(https://example.com/track.png) }', 'themeCSS')).toThrow('data: URIs')
+        expect(() => assertSafeStylesheet(".a { background: url( 'http://example.com' ) }", 'themeCSS')).toThrow('data: URIs')
+    })
+
+    it('rejects escapes that could hide a url()', () => {
+        expect(() => assertSafeStylesheet('.a { background: \\75 rl(https://example.com) }', 'themeCSS')).toThrow('escapes')
+    })
+})
+
+/**
+ * Builds and renders a Mermaid page from a hostile request. Returns the error,
+ * if the request was refused, and whether any injected script ran.
+ */
+function renderHostile(request: Record<string, unknown>): Promise<{ error?: string, scriptRan: boolean }> {
+    return browserPool.withPage('mermaid', async page => {
+        let error: string | undefined
+        try {
+            const parsed = RenderMermaidRequestSchema.parse({ mermaidCode: 'graph TD\n  A --> B', ...request })
+            const renderer = new MermaidRenderer(parsed, await ThemeManager.resolveTheme(parsed))
+            await renderer.buildPage(page)
+            await renderer.waitForReady(page, 10000)
+        } catch (caught) {
+            error = (caught as Error).message
+        }
+        // Let handlers of loaded or failed resources run
+        await new Promise(resolve => setTimeout(resolve, 200))
+        const scriptRan = await page.evaluate(() => (window as any).pwned === true)
+        return { error, scriptRan }
+    }, { reusable: false })
+}
+
+const injectedScript = `<script>window.pwned = true; fetch('${canaryUrl}/script')</script>`
+
+describe.skipIf(!browserAvailable)('render page with hostile input', () => {
+    afterEach(() => {
+        expect(canaryHits).toEqual([])
+    })
+
+    it('refuses a backgroundColor that closes the style', async () => {
+        const result = await renderHostile({ backgroundColor: `red; } </style>${injectedScript}` })
+
+        expect(result.error).toContain('Invalid CSS color')
+        expect(result.scriptRan).toBe(false)
+    })
+
+    it('refuses a backgroundColor that loads an image', async () => {
+        const result = await renderHostile({ backgroundColor: `url(${canaryUrl}/background)` })
+
+        expect(result.error).toContain('Invalid CSS color')
+    })
+
+    it('keeps </script> in mermaidCode as text', async () => {
+        const result = await renderHostile({ mermaidCode: `graph TD\n  A["</script>${injectedScript}"] --> B` })
+
+        expect(result.scriptRan).toBe(false)
+    })
+
+    it('drops event handlers from labels', async () => {
+        const result = await renderHostile({
+            mermaidCode: `graph TD\n  A["<img src=x onerror='window.pwned = true'>"] --> B`
+        })
+
+        expect(result.scriptRan).toBe(false)
+    })
+
+    it('blocks images the diagram links to', async () => {
+        const result = await renderHostile({
+            mermaidCode: `flowchart TD\n  A@{ img: "${canaryUrl}/image.png", label: "Remote", pos: "t", h: 60 }\n  A --> B`
+        })
+
+        expect(result.scriptRan).toBe(false)
+    })
+
+    it('refuses themeCSS that closes the style', async () => {
+        const result = await renderHostile({ themeCSS: `.node { fill: red } </style>${injectedScript}` })
+
+        expect(result.error).toContain("must not contain '<'")
+        expect(result.scriptRan).toBe(false)
+    })
+
+    it('refuses themeCSS that loads a remote URL', async () => {
+        const result = await renderHostile({ themeCSS: `.node rect { fill: url(${canaryUrl}/theme) }` })
+
+        expect(result.error).toContain('data: URIs')
+    })
+
+    it('refuses a font loaded from a URL', async () => {
+        const result = await renderHostile({ fonts: [{ family: 'Brand', src: `${canaryUrl}/font.woff2` }] })
+
+        expect(result.error).toContain('is not a readable font')
+    })
+})
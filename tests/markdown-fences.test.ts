@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { extractFences, replaceFences } from '../src/utils/markdown-fences.js'
+
+describe('extractFences', () => {
+    it('finds fences of the given languages with their offsets', () => {
+        const markdown = '# Title\n\n```mermaid\ngraph TD; A-->B\n```\n\n```js\nconsole.log(1)\n```\n'
+        const fences = extractFences(markdown, ['mermaid'])
+
+        expect(fences).toHaveLength(1)
+        expect(fences[0]).toMatchObject({ language: 'mermaid', code: 'graph TD; A-->B' })
+        expect(markdown.slice(fences[0].start, fences[0].end)).toBe('```mermaid\ngraph TD; A-->B\n```')
+    })
+
+    it('matches the language case-insensitively and ignores the rest of the info string', () => {
+        const fences = extractFences('```Mermaid title="flow"\ngraph TD; A-->B\n```', ['mermaid'])
+
+        expect(fences).toHaveLength(1)
+        expect(fences[0].language).toBe('mermaid')
+    })
+
+    it('only closes a fence with the same character and at least the same length', () => {
+        const markdown = '````mermaid\ngraph TD\n```\n~~~~\nA-->B\n````'
+        const fences = extractFences(markdown, ['mermaid'])
+
+        expect(fences).toHaveLength(1)
+        expect(fences[0].code).toBe('graph TD\n```\n~~~~\nA-->B')
+    })
+
+    it('skips fences nested in another code block', () => {
+        const markdown = '~~~markdown\n```mermaid\ngraph TD; A-->B\n```\n~~~'
+
+        expect(extractFences(markdown, ['mermaid'])).toEqual([])
+    })
+
+    it('does not treat fences indented by four spaces as fences', () => {
+        expect(extractFences('    ```mermaid\n    graph TD; A-->B\n    ```', ['mermaid'])).toEqual([])
+    })
+
+    it('runs an unclosed fence to the end of the document', () => {
+        const markdown = 'Text\n```mermaid\ngraph TD; A-->B\n'
+        const fences = extractFences(markdown, ['mermaid'])
+
+        expect(fences).toHaveLength(1)
+        expect(fences[0].code).toBe('graph TD; A-->B\n')
+        expect(fences[0].end).toBe(markdown.length)
+    })
+
+    it('handles CRLF line endings', () => {
+        const fences = extractFences('```mermaid\r\ngraph TD; A-->B\r\n```\r\n', ['mermaid'])
+
+        expect(fences).toHaveLength(1)
+        expect(fences[0].code).toBe('graph TD; A-->B\r')
+    })
+})
+
+describe('replaceFences', () => {
+    it('replaces each fence and keeps the text around them', () => {
+        const markdown = 'Before\n```mermaid\nA\n```\nBetween\n```plotly\n{}\n```\nAfter'
+        const fences = extractFences(markdown, ['mermaid', 'plotly'])
+
+        expect(replaceFences(markdown, fences, ['[one]', '[two]'])).toBe('Before\n[one]\nBetween\n[two]\nAfter')
+    })
+})
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { checkEmbeddedConfig, sanitizeMermaidConfig } from '../src/utils/mermaid-config.js'
+
+describe('sanitizeMermaidConfig', () => {
+    it('keeps known keys as they are', () => {
+        const { config, warnings } = sanitizeMermaidConfig({ look: 'handDrawn', flowchart: { curve: 'basis', nodeSpacing: 40 } })
+
+        expect(config).toEqual({ look: 'handDrawn', flowchart: { curve: 'basis', nodeSpacing: 40 } })
+        expect(warnings).toEqual([])
+    })
+
+    it('drops keys the server controls', () => {
+        const { config, warnings } = sanitizeMermaidConfig({ securityLevel: 'loose', startOnLoad: true, dompurifyConfig: {} })
+
+        expect(config).toEqual({})
+        expect(warnings).toEqual([
+            'mermaidConfig.securityLevel was ignored, it is controlled by the server',
+            'mermaidConfig.startOnLoad was ignored, it is controlled by the server',
+            'mermaidConfig.dompurifyConfig was ignored, it is controlled by the server'
+        ])
+    })
+
+    it('points keys with their own option to that option', () => {
+        const { config, warnings } = sanitizeMermaidConfig({ theme: 'dark' })
+
+        expect(config).toEqual({})
+        expect(warnings).toEqual(['mermaidConfig.theme was ignored, use the theme option instead'])
+    })
+
+    it('drops unknown keys at any depth by their path', () => {
+        const { config, warnings } = sanitizeMermaidConfig({ bogus: 1, flowchart: { curve: 'basis', bogus: true } })
+
+        expect(config).toEqual({ flowchart: { curve: 'basis' } })
+        expect(warnings).toEqual([
+            'Unknown Mermaid config key mermaidConfig.bogus was ignored',
+            'Unknown Mermaid config key mermaidConfig.flowchart.bogus was ignored'
+        ])
+    })
+
+    it('returns an empty config without one', () => {
+        expect(sanitizeMermaidConfig(undefined)).toEqual({ config: {}, warnings: [] })
+    })
+})
+
+describe('checkEmbeddedConfig', () => {
+    it('reports reserved and unknown keys in %%{init}%% directives', () => {
+        const warnings = checkEmbeddedConfig("%%{init: {'securityLevel': 'loose', 'bogus': 1}}%%\ngraph TD; A-->B")
+
+        expect(warnings).toEqual([
+            'securityLevel in %%{init}%% directive is ignored',
+            'Unknown Mermaid config key bogus in %%{init}%% directive'
+        ])
+    })
+
+    it('reports invalid values in front matter config', () => {
+        const warnings = checkEmbeddedConfig('---\nconfig:\n  look: sketchy\n---\ngraph TD; A-->B')
+
+        expect(warnings).toHaveLength(1)
+        expect(warnings[0]).toMatch(/^Invalid look in front matter config: /)
+    })
+
+    it('has nothing to report for a diagram without config', () => {
+        expect(checkEmbeddedConfig('graph TD; A-->B')).toEqual([])
+    })
+})
@@ -0,0 +1,59 @@
+import { Page, PDFOptions } from 'puppeteer'
+import { describe, expect, it, vi } from 'vitest'
+import { exportPdf } from '../src/services/pdf-export.js'
+
+// A page whose content is a 200x100 box, it records the print options
+function fakePage() {
+    const pdf = vi.fn(async (_options: PDFOptions) => new Uint8Array([1]))
+    const page = {
+        evaluate: vi.fn(async () => undefined),
+        $: vi.fn(async () => ({ boundingBox: async () => ({ x: 0, y: 0, width: 200, height: 100 }) })),
+        pdf
+    }
+    return { page: page as unknown as Page, printed: () => pdf.mock.calls[0][0] }
+}
+
+describe('exportPdf', () => {
+    it('sizes the page to the diagram plus margins', async () => {
+        const { page, printed } = fakePage()
+        await exportPdf(page, '.diagram', { scale: 2, margin: { top: 10, bottom: '10px', left: '0.5in' } })
+
+        expect(printed()).toMatchObject({
+            width: '448px',
+            height: '220px',
+            margin: { top: '10px', right: '0px', bottom: '10px', left: '48px' },
+            scale: 2,
+            pageRanges: '1'
+        })
+    })
+
+    it('prints on a paper size with margins in any unit', async () => {
+        const { page, printed } = fakePage()
+        await exportPdf(page, '.diagram', {
+            paperSize: 'Letter',
+            landscape: true,
+            margin: { top: '1in', right: '2.54cm', bottom: '12.7 mm', left: '16' }
+        })
+
+        const options = printed()
+        expect(options).toMatchObject({ format: 'Letter', landscape: true, scale: 1 })
+        expect(options.width).toBeUndefined()
+        expect(options.margin?.top).toBe('96px')
+        expect(parseFloat(String(options.margin?.right))).toBeCloseTo(96)
+        expect(parseFloat(String(options.margin?.bottom))).toBeCloseTo(48)
+        expect(options.margin?.left).toBe('16px')
+    })
+
+    it('uses A4 when it should not fit the diagram and names no paper size', async () => {
+        const { page, printed } = fakePage()
+        await exportPdf(page, '.diagram', { fitToDiagram: false })
+
+        expect(printed().format).toBe('A4')
+    })
+
+    it('refuses margins in other units', async () => {
+        const { page } = fakePage()
+
+        await expect(exportPdf(page, '.diagram', { margin: { top: '1em' } })).rejects.toThrow('Invalid PDF margin: 1em')
+    })
+})
@@ -0,0 +1,68 @@
+import { chmodSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { describe, expect, it } from 'vitest'
+import { setupTestEnv } from './test-env.js'
+
+// A stand-in for java that never answers, the jar is never opened
+const { root } = setupTestEnv('plantuml', { PLANTUML_TIMEOUT_MS: '5000', MAX_RENDER_TIMEOUT_MS: '10000' })
+const javaPath = join(root, 'java')
+writeFileSync(javaPath, '#!/bin/sh\nexec sleep 30\n')
+chmodSync(javaPath, 0o755)
+process.env.JAVA_PATH = javaPath
+process.env.PLANTUML_JAR = join(root, 'plantuml.jar')
+const { PlantumlService, toSyntaxError, wrapSource } = await import('../src/services/plantuml-service.js')
+
+const plantumlService = new PlantumlService()
+
+function render(request: { plantumlCode: string, timeoutMs?: number }) {
+    return plantumlService.renderPlantuml({ format: 'svg', ...request })
+}
+
+describe('wrapSource', () => {
+    it('wraps a source without an @start line', () => {
+        expect(wrapSource('Alice -> Bob')).toEqual({ source: '@startuml\nAlice -> Bob\n@enduml\n', lineOffset: 1 })
+    })
+
+    it('keeps a source that has one', () => {
+        expect(wrapSource('@startuml\nAlice -> Bob\n@enduml')).toEqual({ source: '@startuml\nAlice -> Bob\n@enduml', lineOffset: 0 })
+        expect(wrapSource('  @startmindmap\n* Root\n@endmindmap')).toMatchObject({ lineOffset: 0 })
+    })
+})
+
+describe('toSyntaxError', () => {
+    const code = 'Alice -> Bob\nBob ->\nBob -> Alice'
+
+    it('maps the 0-based PlantUML line back to the request', () => {
+        expect(toSyntaxError(code, 'Syntax Error?', 2, 1)).toEqual({
+            message: 'Syntax Error?',
+            line: 2,
+            snippet: '  1 | Alice -> Bob\n> 2 | Bob ->\n  3 | Bob -> Alice'
+        })
+        expect(toSyntaxError(code, 'Syntax Error?', 1, 0).line).toBe(2)
+    })
+
+    it('points an error in the added @startuml line at the first line', () => {
+        expect(toSyntaxError(code, 'Syntax Error?', 0, 1).line).toBe(1)
+    })
+
+    it('keeps only the message without a position', () => {
+        expect(toSyntaxError(code, 'Syntax Error?', undefined, 1)).toEqual({ message: 'Syntax Error?' })
+        expect(toSyntaxError(code, 'Syntax Error?', NaN, 1)).toEqual({ message: 'Syntax Error?' })
+    })
+})
+
+describe('PlantumlService.renderPlantuml', () => {
+    it('stops the jar after the request timeout', async () => {
+        const result = await render({ plantumlCode: 'Alice -> Bob', timeoutMs: 200 })
+
+        expect(result.success).toBe(false)
+        expect(result.error).toBe('PlantUML did not finish within 200ms')
+    })
+
+    it('refuses a timeout over the maximum', async () => {
+        const result = await render({ plantumlCode: 'Alice -> Bob', timeoutMs: 20000 })
+
+        expect(result.success).toBe(false)
+        expect(result.error).toContain('Timeout must be at most 10000ms')
+    })
+})
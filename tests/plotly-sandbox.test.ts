@@ -0,0 +1,80 @@
+import { Page } from 'puppeteer'
+import { afterAll, describe, expect, it } from 'vitest'
+import { setupTestEnv } from './test-env.js'
+
+setupTestEnv('plotly-sandbox', { CHROME_NO_SANDBOX: 'true', PLOTLY_CODE_TIMEOUT_MS: '1000' })
+const { browserPool } = await import('../src/services/browser-pool.js')
+const { lockDownPage, runPlotlyCode } = await import('../src/services/plotly-sandbox.js')
+
+// Only runs where Chromium can start
+const browserAvailable = await browserPool.withPage('plotly', async () => true).catch(() => false)
+
+afterAll(async () => {
+    await browserPool.close()
+})
+
+// Runs `statement` as Plotly code and returns the message it threw, if any
+function outcomeOf(statement: string): Promise<string> {
+    return browserPool.withPage('plotly', async page => {
+        await runPlotlyCode(page, `
+            try {
+                ${statement};
+                window.outcome = 'ran';
+            } catch (error) {
+                window.outcome = error.message;
+            }
+        `, {})
+        return page.evaluate(() => (window as any).outcome)
+    }, { reusable: false })
+}
+
+describe.skipIf(!browserAvailable)('runPlotlyCode in sandboxed mode', () => {
+    it.each([
+        ['eval', "eval('1')"],
+        ['Function', "Function('return 1')()"],
+        ['the Function constructor', "(function () {}).constructor('return 1')()"],
+        ['the async function constructor', "(async function () {}).constructor('return 1')"],
+        ['setTimeout with a string', "setTimeout('window.leaked = true', 0)"],
+        ['setInterval with a string', "setInterval('window.leaked = true', 0)"],
+        ['fetch', "fetch('https://example.com')"],
+        ['XMLHttpRequest', 'new XMLHttpRequest()'],
+        ['WebSocket', "new WebSocket('wss://example.com')"]
+    ])('blocks %s', async (_, statement) => {
+        expect(await outcomeOf(statement)).toMatch(/disabled in sandboxed Plotly code/)
+    })
+
+    it('keeps timers that get a function', async () => {
+        expect(await outcomeOf('setTimeout(() => undefined, 0)')).toBe('ran')
+    })
+
+    it('stops runaway code by closing its page', async () => {
+        let codePage: Page | undefined
+        const run = browserPool.withPage('plotly', async page => {
+            codePage = page
+            await runPlotlyCode(page, 'while (true) {}', {})
+        }, { reusable: false })
+
+        await expect(run).rejects.toThrow('Plotly code did not finish within 1000ms')
+        expect(codePage?.isClosed()).toBe(true)
+    }, 15000)
+})
+
+describe.skipIf(!browserAvailable)('lockDownPage', () => {
+    it('blocks the remaining network APIs', async () => {
+        const outcomes = await browserPool.withPage('plotly', async page => {
+            await lockDownPage(page)
+            return page.evaluate(() => ['EventSource', 'Worker', 'SharedWorker', 'RTCPeerConnection'].map(name => {
+                try {
+                    new (window as any)[name]('data:,')
+                    return 'ran'
+                } catch (error) {
+                    return (error as Error).message
+                }
+            }))
+        }, { reusable: false })
+
+        for (const outcome of outcomes) {
+            expect(outcome).toMatch(/disabled in sandboxed Plotly code/)
+        }
+    })
+})
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { computeDeviceScaleFactor } from '../src/services/raster-sizing.js'
+
+describe('computeDeviceScaleFactor', () => {
+    it('uses scale as is without other sizing', () => {
+        expect(computeDeviceScaleFactor(400, 200, {})).toBe(1)
+        expect(computeDeviceScaleFactor(400, 200, { scale: 2 })).toBe(2)
+    })
+
+    it('scales the diagram to width or height', () => {
+        expect(computeDeviceScaleFactor(400, 200, { width: 800 })).toBe(2)
+        expect(computeDeviceScaleFactor(400, 200, { height: 100 })).toBe(0.5)
+    })
+
+    it('fits within width and height while keeping the aspect ratio', () => {
+        expect(computeDeviceScaleFactor(400, 200, { width: 800, height: 200 })).toBe(1)
+    })
+
+    it('multiplies the size by scale', () => {
+        expect(computeDeviceScaleFactor(400, 200, { width: 800, scale: 2 })).toBe(4)
+    })
+
+    it('lowers the ratio to fit maxWidth and maxHeight', () => {
+        expect(computeDeviceScaleFactor(400, 200, { width: 800, maxWidth: 600 })).toBe(1.5)
+        expect(computeDeviceScaleFactor(400, 200, { scale: 3, maxHeight: 400 })).toBe(2)
+    })
+
+    it('fills maxWidth and maxHeight without a size or scale', () => {
+        expect(computeDeviceScaleFactor(400, 200, { maxWidth: 1200 })).toBe(3)
+    })
+})
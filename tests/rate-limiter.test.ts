@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { RateLimiter } from '../src/utils/rate-limiter.js'
+
+beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+})
+
+afterEach(() => {
+    vi.useRealTimers()
+})
+
+describe('RateLimiter', () => {
+    it('allows requests up to the limit within a window', () => {
+        const limiter = new RateLimiter(2, 60 * 1000)
+
+        expect(limiter.consume('a').allowed).toBe(true)
+        expect(limiter.consume('a')).toEqual({ allowed: true, remaining: 0, retryAfterSeconds: 60 })
+        expect(limiter.consume('a')).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 60 })
+    })
+
+    it('counts each client on its own', () => {
+        const limiter = new RateLimiter(1, 60 * 1000)
+
+        expect(limiter.consume('a').allowed).toBe(true)
+        expect(limiter.consume('b').allowed).toBe(true)
+        expect(limiter.consume('a').allowed).toBe(false)
+    })
+
+    it('starts a new window once the old one has passed', () => {
+        const limiter = new RateLimiter(1, 60 * 1000)
+        limiter.consume('a')
+
+        vi.setSystemTime(45 * 1000)
+        expect(limiter.consume('a').retryAfterSeconds).toBe(15)
+
+        vi.setSystemTime(60 * 1000)
+        expect(limiter.consume('a').allowed).toBe(true)
+    })
+
+    it('does not count a cost that would go over the limit', () => {
+        const limiter = new RateLimiter(5, 60 * 1000)
+        limiter.consume('a', 3)
+
+        expect(limiter.consume('a', 3)).toMatchObject({ allowed: false, remaining: 2 })
+        expect(limiter.consume('a', 2)).toMatchObject({ allowed: true, remaining: 0 })
+    })
+
+    it('allows everything with a limit of 0', () => {
+        const limiter = new RateLimiter(0, 60 * 1000)
+
+        expect(limiter.enabled).toBe(false)
+        expect(limiter.consume('a', 1000).allowed).toBe(true)
+    })
+})
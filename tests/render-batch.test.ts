@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { setupTestEnv } from './test-env.js'
+
+setupTestEnv('batch')
+const { countBatchRenders } = await import('../src/tools/render-batch.js')
+
+describe('countBatchRenders', () => {
+    it('counts one render per job', () => {
+        expect(countBatchRenders({ jobs: [{ type: 'mermaid' }, { type: 'plotly' }] })).toBe(2)
+        expect(countBatchRenders({ jobs: [{ type: 'mermaid' }], bundle: 'zip' })).toBe(1)
+    })
+
+    it('counts jobs a PDF bundle renders again twice', () => {
+        const jobs = [
+            { type: 'mermaid' },
+            { type: 'mermaid', format: 'png' },
+            { type: 'plotly', format: 'webp' },
+            { type: 'plotly', format: 'pdf' }
+        ]
+
+        expect(countBatchRenders({ jobs, bundle: 'pdf' })).toBe(6)
+    })
+
+    it('counts a call without jobs as one render', () => {
+        expect(countBatchRenders({})).toBe(1)
+    })
+})
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { computeCacheKey, normalizeRenderOptions } from '../src/utils/render-cache.js'
+
+describe('computeCacheKey', () => {
+    it('is the same for options in another order', () => {
+        const first = computeCacheKey('render_mermaid', 'graph TD; A-->B', { format: 'png', theme: 'dark', pdf: { landscape: true, margin: '1cm' } })
+        const second = computeCacheKey('render_mermaid', 'graph TD; A-->B', { pdf: { margin: '1cm', landscape: true }, theme: 'dark', format: 'png' })
+
+        expect(first).toBe(second)
+    })
+
+    it('ignores options that only choose where the result goes', () => {
+        const plain = computeCacheKey('render_mermaid', 'graph TD; A-->B', { format: 'svg' })
+        const routed = computeCacheKey('render_mermaid', 'graph TD; A-->B', {
+            format: 'svg',
+            output: 'image',
+            filePath: '/tmp/chart.svg',
+            createDirs: true,
+            overwrite: true,
+            cache: true,
+            theme: undefined
+        })
+
+        expect(routed).toBe(plain)
+    })
+
+    it('differs by tool, source, render options and client', () => {
+        const key = computeCacheKey('render_mermaid', 'graph TD; A-->B', { format: 'svg' })
+
+        expect(computeCacheKey('render_graphviz', 'graph TD; A-->B', { format: 'svg' })).not.toBe(key)
+        expect(computeCacheKey('render_mermaid', 'graph TD; A-->C', { format: 'svg' })).not.toBe(key)
+        expect(computeCacheKey('render_mermaid', 'graph TD; A-->B', { format: 'png' })).not.toBe(key)
+        expect(computeCacheKey('render_mermaid', 'graph TD; A-->B', { format: 'svg' }, 'ci')).not.toBe(key)
+    })
+
+    it('keeps the order of arrays', () => {
+        const first = computeCacheKey('render_plotly', '{}', { viewport: [1, 2] })
+        const second = computeCacheKey('render_plotly', '{}', { viewport: [2, 1] })
+
+        expect(first).not.toBe(second)
+    })
+})
+
+describe('normalizeRenderOptions', () => {
+    it('drops destination and undefined options and sorts nested keys', () => {
+        const normalized = normalizeRenderOptions({ output: 'link', theme: undefined, pdf: { margin: '1cm', landscape: false } })
+
+        expect(JSON.stringify(normalized)).toBe('{"pdf":{"landscape":false,"margin":"1cm"}}')
+    })
+})
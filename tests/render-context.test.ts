@@ -0,0 +1,71 @@
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js'
+import { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js'
+import { describe, expect, it, vi } from 'vitest'
+import { setupTestEnv } from './test-env.js'
+
+setupTestEnv('render-context')
+const { createRenderContext, RENDER_STAGES, reportStage } = await import('../src/utils/render-context.js')
+
+function extra(progressToken?: string) {
+    const controller = new AbortController()
+    const sendNotification = vi.fn(async () => undefined)
+    const handlerExtra = {
+        signal: controller.signal,
+        _meta: progressToken === undefined ? undefined : { progressToken },
+        authInfo: { token: 'token', clientId: 'ci', scopes: [] },
+        sendNotification
+    } as unknown as RequestHandlerExtra<ServerRequest, ServerNotification>
+    return { handlerExtra, controller, sendNotification }
+}
+
+describe('reportStage', () => {
+    it('reports each stage as a step out of all stages', () => {
+        const onProgress = vi.fn()
+        for (const stage of RENDER_STAGES) {
+            reportStage({ onProgress }, stage)
+        }
+
+        expect(onProgress.mock.calls).toEqual([
+            [1, 5, 'browser_ready'],
+            [2, 5, 'library_loaded'],
+            [3, 5, 'rendered'],
+            [4, 5, 'exported'],
+            [5, 5, 'saved']
+        ])
+    })
+
+    it('does nothing without a progress callback', () => {
+        expect(() => reportStage(undefined, 'saved')).not.toThrow()
+        expect(() => reportStage({}, 'saved')).not.toThrow()
+    })
+})
+
+describe('createRenderContext', () => {
+    it('reports progress only when the client sent a progress token', () => {
+        const { handlerExtra } = extra()
+        const context = createRenderContext(handlerExtra)
+
+        expect(context.onProgress).toBeUndefined()
+        expect(context.clientId).toBe('ci')
+        expect(context.signal).toBe(handlerExtra.signal)
+    })
+
+    it('sends stages as progress notifications for the token', () => {
+        const { handlerExtra, sendNotification } = extra('render-1')
+        reportStage(createRenderContext(handlerExtra), 'rendered')
+
+        expect(sendNotification).toHaveBeenCalledWith({
+            method: 'notifications/progress',
+            params: { progressToken: 'render-1', progress: 3, total: 5, message: 'rendered' }
+        })
+    })
+
+    it('stops notifying once the request is cancelled', () => {
+        const { handlerExtra, controller, sendNotification } = extra('render-1')
+        const context = createRenderContext(handlerExtra)
+        controller.abort()
+        reportStage(context, 'saved')
+
+        expect(sendNotification).not.toHaveBeenCalled()
+    })
+})
@@ -0,0 +1,75 @@
+import { readdirSync } from 'fs'
+import { join } from 'path'
+import { describe, expect, it } from 'vitest'
+import { setupTestEnv } from './test-env.js'
+
+const { root, staticDir } = setupTestEnv('graphviz')
+const { renderGraphvizTool } = await import('../src/tools/render-graphviz.js')
+
+describe('render_graphviz', () => {
+    it('renders with the default format and output', async () => {
+        const result = await renderGraphvizTool.execute({ dotCode: 'digraph { a -> b }', engine: 'dot', format: 'svg' })
+
+        expect(result.success).toBe(true)
+        expect(result.output_type).toBe('link')
+        expect(result.data).toMatch(/\/static\/[0-9a-f]+\.svg/)
+    })
+
+    it('returns SVG without the XML prolog and doctype', async () => {
+        const result = await renderGraphvizTool.execute({ dotCode: 'digraph { c -> d }', engine: 'dot', format: 'svg', output: 'raw' })
+
+        expect(result.success).toBe(true)
+        expect(result.data?.startsWith('<svg')).toBe(true)
+    })
+
+    it('serves a repeated call from the cache', async () => {
+        const params = { dotCode: 'digraph { e -> f }', engine: 'dot' as const, format: 'svg' as const }
+        const first = await renderGraphvizTool.execute(params)
+        const second = await renderGraphvizTool.execute(params)
+
+        expect(first.cache).toBe('miss')
+        expect(second.cache).toBe('hit')
+        expect(second.data).toBe(first.data)
+    })
+
+    it('reports DOT syntax errors with their line', async () => {
+        const result = await renderGraphvizTool.execute({ dotCode: 'digraph {\n a -> \n}', engine: 'dot', format: 'svg' })
+
+        expect(result.success).toBe(false)
+        expect(result.syntaxError?.line).toBeDefined()
+    })
+
+    // Takes a few hundred milliseconds to lay out
+    const slowDot = `digraph {\n${Array.from({ length: 400 }, (_, index) => `n${index} -> n${(index * 7 + 3) % 400}`).join('\n')}\n}`
+
+    it('stops a layout that runs past its timeout and keeps serving', async () => {
+        const slow = await renderGraphvizTool.execute({ dotCode: slowDot, engine: 'dot', format: 'svg', timeoutMs: 1 })
+        const next = await renderGraphvizTool.execute({ dotCode: 'digraph { g -> h }', engine: 'dot', format: 'svg', output: 'raw' })
+
+        expect(slow.success).toBe(false)
+        expect(slow.error).toBe('Graphviz layout did not finish within 1ms')
+        expect(next.success).toBe(true)
+    })
+
+    it('stops the layout when the request is cancelled', async () => {
+        const controller = new AbortController()
+        const result = renderGraphvizTool.execute({ dotCode: slowDot, engine: 'dot', format: 'svg' }, { signal: controller.signal })
+        setTimeout(() => controller.abort(), 20)
+
+        expect((await result).error).toBe('Render was cancelled')
+    })
+
+    it('refuses a filePath before anything is rendered or stored', async () => {
+        const filesBefore = readdirSync(staticDir).length
+        const result = await renderGraphvizTool.execute({
+            dotCode: 'digraph { refused -> path }',
+            engine: 'dot',
+            format: 'svg',
+            filePath: join(root, 'chart.svg')
+        })
+
+        expect(result.success).toBe(false)
+        expect(result.error).toContain('set ALLOWED_DIRS to enable it')
+        expect(readdirSync(staticDir).length).toBe(filesBefore)
+    })
+})
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { setupTestEnv } from './test-env.js'
+
+setupTestEnv('markdown')
+const { countMarkdownRenders } = await import('../src/tools/render-markdown.js')
+
+const markdown = '# Flow\n\n```mermaid\ngraph TD; A-->B\n```\n\n```plotly\n{ "data": [] }\n```\n'
+
+describe('countMarkdownRenders', () => {
+    it('counts one render per fence it renders', () => {
+        expect(countMarkdownRenders({ markdown })).toBe(1)
+        expect(countMarkdownRenders({ markdown, plotly: true })).toBe(2)
+    })
+
+    it('counts at least one render', () => {
+        expect(countMarkdownRenders({ markdown: '# No diagrams' })).toBe(1)
+        expect(countMarkdownRenders()).toBe(1)
+    })
+
+    it('counts the document render of a PDF', () => {
+        expect(countMarkdownRenders({ markdown, documentFormat: 'pdf' })).toBe(2)
+        expect(countMarkdownRenders({ markdown, documentFormat: 'html' })).toBe(1)
+    })
+})
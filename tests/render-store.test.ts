@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { setupTestEnv } from './test-env.js'
+
+setupTestEnv('render-store', { RENDER_TTL_SECONDS: '60' })
+const { FileManager } = await import('../src/utils/file-manager.js')
+const { RenderStore } = await import('../src/utils/render-store.js')
+
+async function registerCached(cacheKey: string) {
+    const filename = await FileManager.saveTempFile('<svg></svg>', 'svg')
+    return RenderStore.register({ filename, format: 'svg', tool: 'render_mermaid', source: 'graph TD; A-->B', cacheKey })
+}
+
+describe('RenderStore.findByCacheKey', () => {
+    it('skips renders past the TTL', async () => {
+        const record = await registerCached('a'.repeat(64))
+
+        expect(await RenderStore.findByCacheKey(record.cacheKey!, Date.parse(record.lastUsedAt) + 61_000)).toBeUndefined()
+    })
+
+    it('marks a hit as used so it outlives its original expiry', async () => {
+        const record = await registerCached('b'.repeat(64))
+        const hitAt = Date.parse(record.createdAt) + 50_000
+
+        expect((await RenderStore.findByCacheKey(record.cacheKey!, hitAt))?.id).toBe(record.id)
+        expect(RenderStore.get(record.id)?.lastUsedAt).toBe(new Date(hitAt).toISOString())
+
+        await RenderStore.prune(hitAt + 30_000)
+        expect(RenderStore.get(record.id)).toBeDefined()
+    })
+
+    it('keeps the creation time of a hit', async () => {
+        const record = await registerCached('c'.repeat(64))
+        const { createdAt } = record
+
+        await RenderStore.findByCacheKey(record.cacheKey!, Date.parse(createdAt) + 10_000)
+        expect(RenderStore.get(record.id)?.createdAt).toBe(createdAt)
+    })
+})
@@ -0,0 +1,34 @@
+import { readdirSync } from 'fs'
+import { describe, expect, it } from 'vitest'
+import { setupTestEnv } from './test-env.js'
+
+const { staticDir } = setupTestEnv('render-utils')
+const { handleRenderOutput } = await import('../src/utils/render-utils.js')
+const { RenderStore } = await import('../src/utils/render-store.js')
+
+const params = {
+    format: 'svg',
+    tool: 'render_graphviz',
+    source: 'digraph { a -> b }'
+}
+
+describe('handleRenderOutput', () => {
+    it('stores and registers a valid render', async () => {
+        const result = await handleRenderOutput({ ...params, data: '<svg></svg>', output: 'raw', cacheKey: 'a'.repeat(64) })
+
+        expect(result.success).toBe(true)
+        expect(result.data).toBe('<svg></svg>')
+        expect(await RenderStore.findByCacheKey('a'.repeat(64))).toBeDefined()
+    })
+
+    it('rejects invalid SVG before saving or registering it', async () => {
+        const cacheKey = 'b'.repeat(64)
+        const filesBefore = readdirSync(staticDir).length
+
+        await expect(handleRenderOutput({ ...params, data: '<?xml version="1.0"?><svg></svg>', cacheKey }))
+            .rejects.toThrow('SVG data must start with <svg')
+
+        expect(await RenderStore.findByCacheKey(cacheKey)).toBeUndefined()
+        expect(readdirSync(staticDir).length).toBe(filesBefore)
+    })
+})
@@ -0,0 +1,119 @@
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Session } from '../src/utils/session-manager.js'
+import { setupTestEnv } from './test-env.js'
+
+setupTestEnv('sessions')
+const { SessionManager } = await import('../src/utils/session-manager.js')
+
+const IDLE_TIMEOUT_MS = 60 * 1000
+
+beforeEach(() => {
+    vi.useFakeTimers()
+})
+
+afterEach(() => {
+    vi.useRealTimers()
+})
+
+function session(id: string): Session {
+    return {
+        id,
+        transport: {} as StreamableHTTPServerTransport,
+        createdAt: Date.now(),
+        lastActivity: Date.now(),
+        activeRequests: 0,
+        close: vi.fn(async () => undefined)
+    }
+}
+
+describe('SessionManager idle expiry', () => {
+    it('closes sessions idle for the timeout and keeps recent ones', async () => {
+        const sessions = new SessionManager({ idleTimeoutMs: IDLE_TIMEOUT_MS, maxSessions: 10 })
+        const idle = session('idle')
+        sessions.add(idle)
+        vi.advanceTimersByTime(IDLE_TIMEOUT_MS / 2)
+        const recent = session('recent')
+        sessions.add(recent)
+
+        vi.advanceTimersByTime(IDLE_TIMEOUT_MS / 2)
+        await sessions.evictIdle()
+
+        expect(idle.close).toHaveBeenCalledOnce()
+        expect(sessions.get('idle')).toBeUndefined()
+        expect(sessions.get('recent')).toBe(recent)
+        expect(recent.close).not.toHaveBeenCalled()
+    })
+
+    it('never closes a session with an open request, and counts from its end', async () => {
+        const sessions = new SessionManager({ idleTimeoutMs: IDLE_TIMEOUT_MS, maxSessions: 10 })
+        const busy = session('busy')
+        sessions.add(busy)
+        const done = sessions.track(busy)
+
+        vi.advanceTimersByTime(IDLE_TIMEOUT_MS * 2)
+        await sessions.evictIdle()
+        expect(sessions.get('busy')).toBe(busy)
+
+        done()
+        done()
+        expect(busy.activeRequests).toBe(0)
+        vi.advanceTimersByTime(IDLE_TIMEOUT_MS - 1)
+        await sessions.evictIdle()
+        expect(sessions.get('busy')).toBe(busy)
+
+        vi.advanceTimersByTime(1)
+        await sessions.evictIdle()
+        expect(sessions.get('busy')).toBeUndefined()
+    })
+
+    it('sweeps idle sessions on its own', async () => {
+        const sessions = new SessionManager({ idleTimeoutMs: IDLE_TIMEOUT_MS, maxSessions: 10 })
+        const idle = session('idle')
+        sessions.add(idle)
+        sessions.startSweep()
+
+        await vi.advanceTimersByTimeAsync(IDLE_TIMEOUT_MS)
+        expect(idle.close).toHaveBeenCalledOnce()
+
+        await sessions.closeAll()
+    })
+
+    it('removes a session whose close fails', async () => {
+        const sessions = new SessionManager({ idleTimeoutMs: IDLE_TIMEOUT_MS, maxSessions: 10 })
+        const broken = session('broken')
+        broken.close = vi.fn(async () => {
+            throw new Error('transport gone')
+        })
+        sessions.add(broken)
+
+        vi.advanceTimersByTime(IDLE_TIMEOUT_MS)
+        await sessions.evictIdle()
+
+        expect(sessions.size).toBe(0)
+    })
+})
+
+describe('SessionManager.hasCapacity', () => {
+    it('allows sessions up to maxSessions', async () => {
+        const sessions = new SessionManager({ idleTimeoutMs: IDLE_TIMEOUT_MS, maxSessions: 2 })
+        sessions.add(session('first'))
+        expect(await sessions.hasCapacity()).toBe(true)
+
+        sessions.add(session('second'))
+        expect(await sessions.hasCapacity()).toBe(false)
+        expect(sessions.size).toBe(2)
+    })
+
+    it('closes idle sessions to make room', async () => {
+        const sessions = new SessionManager({ idleTimeoutMs: IDLE_TIMEOUT_MS, maxSessions: 2 })
+        const idle = session('idle')
+        sessions.add(idle)
+        vi.advanceTimersByTime(IDLE_TIMEOUT_MS)
+        sessions.add(session('active'))
+
+        expect(await sessions.hasCapacity()).toBe(true)
+        expect(idle.close).toHaveBeenCalledOnce()
+        expect(sessions.size).toBe(1)
+    })
+})
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { setupTestEnv } from './test-env.js'
+
+setupTestEnv('signed', { STATIC_URL_SECRET: 'test-secret', STATIC_URL_TTL_SECONDS: '60' })
+const { getSignatureQuery, isSigningEnabled, verifySignature } = await import('../src/utils/signed-url.js')
+
+afterEach(() => {
+    vi.useRealTimers()
+})
+
+function signedQuery(filename: string): URLSearchParams {
+    return new URLSearchParams(getSignatureQuery(filename))
+}
+
+describe('signed static URLs', () => {
+    it('verifies a link it signed', () => {
+        const query = signedQuery('chart.svg')
+
+        expect(isSigningEnabled()).toBe(true)
+        expect(verifySignature('chart.svg', query.get('expires'), query.get('signature'))).toBe(true)
+    })
+
+    it('rejects the signature for another file', () => {
+        const query = signedQuery('chart.svg')
+
+        expect(verifySignature('other.svg', query.get('expires'), query.get('signature'))).toBe(false)
+    })
+
+    it('rejects a changed expiry', () => {
+        const query = signedQuery('chart.svg')
+        const later = String(Number(query.get('expires')) + 3600)
+
+        expect(verifySignature('chart.svg', later, query.get('signature'))).toBe(false)
+    })
+
+    it('rejects a link after it expires', () => {
+        vi.useFakeTimers()
+        vi.setSystemTime(Date.parse('2026-01-01T00:00:00Z'))
+        const query = signedQuery('chart.svg')
+
+        vi.setSystemTime(Date.parse('2026-01-01T00:01:01Z'))
+
+        expect(verifySignature('chart.svg', query.get('expires'), query.get('signature'))).toBe(false)
+    })
+
+    it('rejects missing or malformed parameters', () => {
+        const query = signedQuery('chart.svg')
+
+        expect(verifySignature('chart.svg', undefined, query.get('signature'))).toBe(false)
+        expect(verifySignature('chart.svg', query.get('expires'), ['a', 'b'])).toBe(false)
+        expect(verifySignature('chart.svg', '1e20', query.get('signature'))).toBe(false)
+    })
+})
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { mapParserLine, parseMermaidError } from '../src/utils/syntax-errors.js'
+
+describe('mapParserLine', () => {
+    it('maps lines past the front matter', () => {
+        const code = '---\ntitle: Flow\n---\ngraph TD\n  A -->'
+
+        expect(mapParserLine(code, 1)).toBe(4)
+        expect(mapParserLine(code, 2)).toBe(5)
+    })
+
+    it('skips comment lines and leading directives', () => {
+        expect(mapParserLine('graph TD\n%% a note\n  A --> B\n  B -->', 3)).toBe(4)
+        expect(mapParserLine('%%{init: {"theme": "dark"}}%%\ngraph TD\n  A -->', 2)).toBe(3)
+    })
+
+    it('handles Windows line endings', () => {
+        expect(mapParserLine('---\r\ntitle: Flow\r\n---\r\ngraph TD\r\n  A -->', 2)).toBe(5)
+    })
+
+    it('keeps lines it cannot map', () => {
+        expect(mapParserLine('graph TD', 7)).toBe(7)
+    })
+})
+
+describe('parseMermaidError', () => {
+    it('takes line, column, expected tokens and the token from a Jison hash', () => {
+        const code = '---\ntitle: Flow\n---\ngraph TD\n  A -- B'
+        const error = parseMermaidError({
+            message: 'Parse error on line 2:\n...',
+            hash: {
+                token: 'NODE_STRING',
+                loc: { first_line: 2, first_column: 7, last_line: 2, last_column: 8 },
+                expected: ["'SEMI'", "'NEWLINE'"]
+            }
+        }, code)
+
+        expect(error).toMatchObject({ line: 5, column: 8, token: 'NODE_STRING', expected: ['SEMI', 'NEWLINE'] })
+        expect(error.snippet).toBe([
+            '  4 | graph TD',
+            '> 5 |   A -- B',
+            '    |        ^'
+        ].join('\n'))
+    })
+
+    it('counts the hash line from 0 when there is no location', () => {
+        const error = parseMermaidError({ message: 'Syntax error', hash: { line: 1 } }, 'graph TD\n  A -->')
+
+        expect(error.line).toBe(2)
+        expect(error.column).toBeUndefined()
+    })
+
+    it('reads the position from a Langium message', () => {
+        const code = 'pie\n  "Dogs" : 3\n  "Cats" : x'
+        const error = parseMermaidError({ message: 'Lexing error on line 3, column 12: unexpected character' }, code)
+
+        expect(error).toMatchObject({ line: 3, column: 12 })
+        expect(error.snippet).toContain('> 3 |   "Cats" : x')
+    })
+
+    it('keeps only the message without a position', () => {
+        expect(parseMermaidError({ message: ' No diagram type detected ' }, 'nonsense')).toEqual({
+            message: 'No diagram type detected'
+        })
+    })
+})
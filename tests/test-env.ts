@@ -0,0 +1,31 @@
+import { mkdirSync, mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterAll } from 'vitest'
+
+export interface TestEnv {
+    // Temp dir of the test file, removed after its tests
+    root: string
+    // The render store, inside root
+    staticDir: string
+}
+
+/**
+ * The config is read on import, so a test file calls this before it imports
+ * anything from src. Points the render store at a fresh temp dir and sets
+ * the other variables in `env`.
+ */
+export function setupTestEnv(name: string, env: Record<string, string> = {}): TestEnv {
+    const root = mkdtempSync(join(tmpdir(), `diagram-mcp-${name}-`))
+    const staticDir = join(root, 'static')
+    mkdirSync(staticDir)
+
+    process.env.STATIC_DIR = staticDir
+    Object.assign(process.env, env)
+
+    afterAll(() => {
+        rmSync(root, { recursive: true, force: true })
+    })
+
+    return { root, staticDir }
+}
@@ -0,0 +1,53 @@
+import { mkdirSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { afterEach, describe, expect, it } from 'vitest'
+import { setupTestEnv } from './test-env.js'
+
+const { root } = setupTestEnv('theme')
+const allowedDir = join(root, 'allowed')
+const outsideDir = join(root, 'outside')
+mkdirSync(allowedDir)
+mkdirSync(outsideDir)
+process.env.ALLOWED_DIRS = allowedDir
+const { config } = await import('../src/config.js')
+const { ThemeManager } = await import('../src/services/theme-manager.js')
+
+afterEach(() => {
+    config.allowedDirs = [allowedDir]
+})
+
+const allowedFont = join(allowedDir, 'brand.woff2')
+const outsideFont = join(outsideDir, 'brand.woff2')
+writeFileSync(allowedFont, 'font')
+writeFileSync(outsideFont, 'font')
+
+describe('ThemeManager.buildFontFaceCss', () => {
+    it('inlines a font file from an allowed dir', async () => {
+        const css = await ThemeManager.buildFontFaceCss([{ family: 'Brand', src: allowedFont }])
+
+        expect(css).toContain(`url("data:font/woff2;base64,${Buffer.from('font').toString('base64')}")`)
+    })
+
+    it('refuses local font files when no allowed dirs are set', async () => {
+        config.allowedDirs = []
+
+        await expect(ThemeManager.buildFontFaceCss([{ family: 'Brand', src: outsideFont }]))
+            .rejects.toThrow('is not a readable font in the allowed directories')
+    })
+
+    it('gives the same error for missing files and files outside the allowed dirs', async () => {
+        const outside = ThemeManager.buildFontFaceCss([{ family: 'Brand', src: outsideFont }])
+        const missing = ThemeManager.buildFontFaceCss([{ family: 'Brand', src: join(allowedDir, 'missing.woff2') }])
+
+        await expect(outside).rejects.toThrow('is not a readable font in the allowed directories')
+        await expect(missing).rejects.toThrow('is not a readable font in the allowed directories')
+    })
+
+    it('accepts base64 data URIs without allowed dirs', async () => {
+        config.allowedDirs = []
+
+        const css = await ThemeManager.buildFontFaceCss([{ family: 'Brand', src: 'data:font/woff2;base64,Zm9udA==' }])
+
+        expect(css).toContain('url("data:font/woff2;base64,Zm9udA==")')
+    })
+})
@@ -0,0 +1,55 @@
+import { z } from 'zod'
+import { afterEach, describe, expect, it } from 'vitest'
+import { setupTestEnv } from './test-env.js'
+
+setupTestEnv('defaults')
+const { config } = await import('../src/config.js')
+const { withBatchJobDefaults, withToolDefaults } = await import('../src/utils/tool-defaults.js')
+const { RenderBatchRequestSchema, RenderMermaidRequestSchema } = await import('../src/types.js')
+
+afterEach(() => {
+    config.toolDefaults = {}
+})
+
+describe('withToolDefaults', () => {
+    const schema = z.object(withToolDefaults('render_mermaid', RenderMermaidRequestSchema.shape))
+
+    it('fills in options the call leaves out', () => {
+        config.toolDefaults = { render_mermaid: { format: 'png', theme: 'dark' } }
+
+        const params = schema.parse({ mermaidCode: 'graph TD; A-->B', theme: 'forest' })
+
+        expect(params.format).toBe('png')
+        expect(params.theme).toBe('forest')
+    })
+
+    it('reads the defaults on every call', () => {
+        expect(schema.parse({ mermaidCode: 'graph TD; A-->B' }).format).toBe('svg')
+
+        config.toolDefaults = { render_mermaid: { format: 'webp' } }
+
+        expect(schema.parse({ mermaidCode: 'graph TD; A-->B' }).format).toBe('webp')
+    })
+})
+
+describe('withBatchJobDefaults', () => {
+    const schema = z.object(withBatchJobDefaults(RenderBatchRequestSchema.shape))
+
+    it('applies the defaults of the tool each job renders with', () => {
+        config.toolDefaults = { render_mermaid: { format: 'png' }, render_plotly: { format: 'jpg' } }
+
+        const { jobs } = schema.parse({
+            jobs: [
+                { type: 'mermaid', mermaidCode: 'graph TD; A-->B' },
+                { type: 'plotly', figure: { data: [{ y: [1, 2] }] } },
+                { type: 'mermaid', mermaidCode: 'graph TD; A-->B', format: 'pdf' }
+            ]
+        })
+
+        expect(jobs.map(job => job.format)).toEqual(['png', 'jpg', 'pdf'])
+    })
+
+    it('keeps the job count limits', () => {
+        expect(() => schema.parse({ jobs: [] })).toThrow('At least one job is required')
+    })
+})